@@ -0,0 +1,73 @@
+import { assert } from 'chai';
+import { DeclaredEvent, generateAsyncAPI, generateCatalogMarkdown } from '../src';
+
+const declarations: DeclaredEvent[] = [
+  {
+    topic: 'orders.created',
+    description: 'Emitted once an order is placed.',
+    schema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+    owner: 'checkout'
+  },
+  { topic: 'orders.cancelled', deprecated: 'use orders.voided' }
+];
+const subscriptions = [
+  { event: 'orders.*', listenerCount: 2 },
+  { event: 'orders.created', listenerCount: 1 },
+  { event: 'debug.trace', listenerCount: 1 },
+  { event: 'error', listenerCount: 1 }
+];
+
+describe('Catalog', () => {
+  it('should generate an AsyncAPI 3.0 document with channels and operations', () => {
+    const document = generateAsyncAPI(declarations, subscriptions, '.', { title: 'Shop' }) as any;
+
+    assert.strictEqual(document.asyncapi, '3.0.0');
+    assert.deepEqual(document.info, { title: 'Shop', version: '1.0.0' });
+    assert.deepEqual(document.channels['orders.created'], {
+      address: 'orders.created',
+      description: 'Emitted once an order is placed.',
+      messages: { 'orders.created': { name: 'orders.created', payload: declarations[0].schema } },
+      'x-owner': 'checkout',
+      'x-listeners': 3
+    });
+    assert.strictEqual(document.channels['orders.cancelled']['x-deprecated'], 'use orders.voided');
+    assert.deepEqual(Object.keys(document.operations), [
+      'orders.cancelled.send',
+      'orders.cancelled.receive',
+      'orders.created.send',
+      'orders.created.receive'
+    ]);
+    assert.deepEqual(document.operations['orders.created.receive'], {
+      action: 'receive',
+      channel: { $ref: '#/channels/orders.created' },
+      messages: [{ $ref: '#/channels/orders.created/messages/orders.created' }]
+    });
+  });
+
+  it('should generate an AsyncAPI 2.6 document with publish operations for subscribed channels', () => {
+    const document = generateAsyncAPI(declarations, [], '.', { version: '2.6.0' }) as any;
+
+    assert.strictEqual(document.asyncapi, '2.6.0');
+    assert.notProperty(document, 'operations');
+    assert.deepEqual(document.channels['orders.created'].subscribe, {
+      operationId: 'orders.created.send',
+      message: { name: 'orders.created', payload: declarations[0].schema }
+    });
+    assert.notProperty(document.channels['orders.created'], 'publish');
+    assert.strictEqual(document.channels['orders.created']['x-listeners'], 0);
+  });
+
+  it('should generate a Markdown catalog listing undeclared subscriptions', () => {
+    const markdown = generateCatalogMarkdown(declarations, subscriptions, '.');
+
+    assert.include(
+      markdown,
+      '# Event Catalog\n\n## `orders.cancelled`\n\n- Listeners: 2\n- Deprecated: use orders.voided'
+    );
+    assert.include(
+      markdown,
+      '## `orders.created`\n\nEmitted once an order is placed.\n\n- Owner: checkout\n- Listeners: 3\n\n```json\n{\n  "type": "object"'
+    );
+    assert.match(markdown, /## Undeclared subscriptions\n\n- `debug.trace`: 1 listener\n$/);
+  });
+});
@@ -1,6 +1,18 @@
 import { assert } from 'chai';
-import { EventEmitter, EventFilter, defaultSeparator } from '../src';
-import { EventHistory } from '../src/Interfaces';
+import {
+  AbortError,
+  AsyncListenerError,
+  EmitMiddleware,
+  EventEmitter,
+  EventFilter,
+  MemoryHistoryStore,
+  QueueFullError,
+  TimeoutError,
+  ValidationError,
+  defaultSeparator,
+  validationListenerId
+} from '../src';
+import { CatalogWarning, EventContext, EventHistory, ListenerErrorEvent } from '../src/Interfaces';
 
 interface Message {
   id: number;
@@ -9,6 +21,15 @@ interface Message {
   sender: string;
 }
 
+const getStoredListeners = (emitter: EventEmitter, separator: string, ...segments: string[]) => {
+  let node = emitter.getListenerManager()['topicTries'].get(separator);
+  for (const segment of segments) {
+    node = node?.children.get(segment);
+  }
+
+  return node?.listeners ?? [];
+};
+
 describe('EventEmitter', function () {
   it('should add a listener and emit an event', function (done) {
     const testData = 'Test data';
@@ -294,6 +315,92 @@ describe('EventEmitter', function () {
     assert.strictEqual(callCount, 1);
   });
 
+  it('should run the last throttled call on the trailing edge', async () => {
+    const emitter = new EventEmitter();
+    const received: number[] = [];
+
+    emitter.on('move', (_eventName: string, position: number) => received.push(position), {
+      throttle: { wait: 30, trailing: true }
+    });
+
+    await Promise.all([emitter.emit('move', 1), emitter.emit('move', 2), emitter.emit('move', 3)]);
+
+    assert.deepEqual(received, [1, 3]);
+  });
+
+  it('should run a debounced listener at the latest after maxWait and on the leading edge', async () => {
+    const emitter = new EventEmitter();
+    const trailing: number[] = [];
+    const leading: number[] = [];
+
+    emitter.on('type', (_eventName: string, key: number) => trailing.push(key), {
+      debounce: { wait: 20, maxWait: 50 }
+    });
+    emitter.on('type', (_eventName: string, key: number) => leading.push(key), {
+      debounce: { wait: 20, leading: true }
+    });
+
+    for (let key = 1; key <= 8; key++) {
+      emitter.emit('type', key);
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    assert.isAbove(trailing.length, 1);
+    assert.strictEqual(trailing[trailing.length - 1], 8);
+    assert.deepEqual(leading, [1, 8]);
+  });
+
+  it('should flush and cancel pending calls through the subscription', async () => {
+    const emitter = new EventEmitter();
+    const received: string[] = [];
+
+    const subscription = emitter.on('save', (_eventName: string, doc: string) => received.push(doc), {
+      debounce: 1000
+    });
+
+    const flushed = emitter.emit('save', 'draft');
+    await subscription.flush();
+    await flushed;
+
+    assert.deepEqual(received, ['draft']);
+
+    const cancelled = emitter.emit('save', 'discarded');
+    subscription.cancel();
+    await cancelled;
+
+    assert.deepEqual(received, ['draft']);
+  });
+
+  it('should keep throttling the call reaching maxCalls', async () => {
+    const emitter = new EventEmitter();
+    let callCount = 0;
+
+    emitter.on('scroll', () => callCount++, { throttle: 1000, maxCalls: 2 });
+
+    await emitter.emit('scroll');
+    await emitter.emit('scroll');
+
+    assert.strictEqual(callCount, 1);
+    assert.isEmpty(emitter.inspectSubscription('scroll'));
+  });
+
+  it('should cancel pending debounced calls when the listener is removed', async () => {
+    const emitter = new EventEmitter();
+    let callCount = 0;
+    const listener = () => callCount++;
+
+    emitter.on('resize', listener, { debounce: 10 });
+
+    const pending = emitter.emit('resize');
+    emitter.off('resize', listener);
+    await pending;
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    assert.strictEqual(callCount, 0);
+  });
+
   it('should filter events based on the provided filter function', async function () {
     const messagingEventEmitter = new EventEmitter();
     const currentUser = { username: 'example_user' };
@@ -354,7 +461,7 @@ describe('EventEmitter', function () {
     const listener = () => {};
     eventEmitter.on('testEvent', listener);
 
-    const listeners = eventEmitter.getListenerManager()['eventNamespaces']['']['testEvent'].listeners;
+    const listeners = getStoredListeners(eventEmitter, '_', 'testEvent');
     assert.strictEqual(listeners[0].eventInfo.separator, '_');
   });
 
@@ -364,7 +471,7 @@ describe('EventEmitter', function () {
     const listener = () => {};
     eventEmitter.on('testEvent', listener);
 
-    const listeners = eventEmitter.getListenerManager()['eventNamespaces']['']['testEvent'].listeners;
+    const listeners = getStoredListeners(eventEmitter, ':', 'testEvent');
     assert.strictEqual(listeners[0].eventInfo.separator, ':');
   });
 
@@ -372,7 +479,7 @@ describe('EventEmitter', function () {
     const eventEmitter: EventEmitter = new EventEmitter({ separator: ':' });
 
     eventEmitter.on('example_event', () => {}, { separator: '_' });
-    const listeners = eventEmitter.getListenerManager()['eventNamespaces']['example']['event'].listeners;
+    const listeners = getStoredListeners(eventEmitter, '_', 'example', 'event');
     assert.strictEqual(listeners[0].eventInfo.separator, '_');
   });
 
@@ -380,7 +487,7 @@ describe('EventEmitter', function () {
     const eventEmitter: EventEmitter = new EventEmitter();
 
     eventEmitter.on('example.event', () => {});
-    const listeners = eventEmitter.getListenerManager()['eventNamespaces']['example']['event'].listeners;
+    const listeners = getStoredListeners(eventEmitter, defaultSeparator, 'example', 'event');
     assert.strictEqual(listeners[0].eventInfo.separator, defaultSeparator);
   });
 
@@ -404,9 +511,9 @@ describe('EventEmitter', function () {
     eventEmitter.on('example1_event', removeListener1, { separator: '_' });
     eventEmitter.on('example2:event', removeListener2, { separator: ':' });
 
-    const listeners0 = eventEmitter.getListenerManager()['eventNamespaces']['example0']['event'].listeners;
-    const listeners1 = eventEmitter.getListenerManager()['eventNamespaces']['example1']['event'].listeners;
-    const listeners2 = eventEmitter.getListenerManager()['eventNamespaces']['example2']['event'].listeners;
+    const listeners0 = getStoredListeners(eventEmitter, defaultSeparator, 'example0', 'event');
+    const listeners1 = getStoredListeners(eventEmitter, '_', 'example1', 'event');
+    const listeners2 = getStoredListeners(eventEmitter, ':', 'example2', 'event');
 
     assert.strictEqual(listeners0[0].eventInfo.separator, defaultSeparator);
     assert.strictEqual(listeners1[0].eventInfo.separator, '_');
@@ -603,4 +710,1756 @@ describe('EventEmitter', function () {
     assert.equal(history.length, 1, 'History should have two events');
     assert.equal(history[0].event, testEvent2, 'Event name should match');
   });
+
+  it('should infer payload types from the event map', async () => {
+    type AppEvents = {
+      'orders.created': [orderId: number];
+      'orders.deleted': [orderId: string];
+      'users.created': [name: string, age: number];
+      ready: [];
+    };
+
+    const emitter = new EventEmitter<AppEvents>();
+    const received: unknown[] = [];
+
+    emitter.on('orders.created', (_event, orderId) => {
+      const id: number = orderId;
+      received.push(id);
+    });
+    emitter.on('orders.*', (_event, orderId) => {
+      const id: number | string = orderId;
+      received.push(id);
+    });
+    emitter.on('*.created', (_event, ...args) => {
+      const payload: [number] | [string, number] = args;
+      received.push(payload);
+    });
+    emitter.on('*', () => {
+      received.push('any');
+    });
+
+    // compile-time checks only, never invoked
+    const invalidUsages = async () => {
+      // @ts-expect-error unknown event name
+      emitter.on('orders.updated', () => {});
+      // @ts-expect-error wrong payload type
+      emitter.on('orders.created', (_event, orderId: string) => orderId);
+      // @ts-expect-error pattern without matching events
+      emitter.on('payments.*', () => {});
+      // @ts-expect-error wrong payload type
+      await emitter.emit('orders.deleted', 1);
+      // @ts-expect-error missing payload
+      await emitter.emit('users.created', 'name');
+    };
+
+    await emitter.emit('orders.created', 1);
+    await emitter.emit('ready');
+
+    const history: EventHistory<[]>[] = emitter.getSpecificEventHistory('ready');
+
+    assert.isFunction(invalidUsages);
+    assert.sameDeepMembers(received, [1, 1, [1], 'any', 'any']);
+    assert.equal(history.length, 1);
+  });
+
+  it('should call a once listener only one time and clean up the namespace', async () => {
+    const emitter = new EventEmitter();
+    let callCount = 0;
+
+    emitter.once('namespace.onceEvent', () => {
+      callCount++;
+    });
+
+    await emitter.emit('namespace.onceEvent');
+    await emitter.emit('namespace.onceEvent');
+
+    assert.strictEqual(callCount, 1);
+    assert.strictEqual(emitter.getListenerManager()['topicTries'].size, 0);
+  });
+
+  it('should remove the listener after maxCalls calls', async () => {
+    const emitter = new EventEmitter();
+    let callCount = 0;
+
+    emitter.on(
+      'maxCallsEvent',
+      () => {
+        callCount++;
+      },
+      { maxCalls: 2 }
+    );
+
+    await Promise.all([emitter.emit('maxCallsEvent'), emitter.emit('maxCallsEvent'), emitter.emit('maxCallsEvent')]);
+
+    assert.strictEqual(callCount, 2);
+    assert.deepEqual(emitter.subscriptions(), []);
+  });
+
+  it('should remove the listener once its ttl expires', async () => {
+    const emitter = new EventEmitter();
+    let callCount = 0;
+
+    emitter.on(
+      'namespace.ttlEvent',
+      () => {
+        callCount++;
+      },
+      { ttl: 50 }
+    );
+
+    await emitter.emit('namespace.ttlEvent');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await emitter.emit('namespace.ttlEvent');
+
+    assert.strictEqual(callCount, 1);
+    assert.strictEqual(emitter.getListenerManager()['topicTries'].size, 0);
+  });
+
+  it('should remove the listener when its signal is aborted', async () => {
+    const emitter = new EventEmitter();
+    const controller = new AbortController();
+    let callCount = 0;
+
+    emitter.on(
+      'signalEvent',
+      () => {
+        callCount++;
+      },
+      { signal: controller.signal }
+    );
+
+    await emitter.emit('signalEvent');
+    controller.abort();
+    await emitter.emit('signalEvent');
+
+    emitter.on('signalEvent', () => callCount++, { signal: controller.signal });
+    await emitter.emit('signalEvent');
+
+    assert.strictEqual(callCount, 1);
+    assert.deepEqual(emitter.subscriptions(), []);
+  });
+
+  it('should remove throttled and debounced listeners by their original function', () => {
+    const emitter = new EventEmitter();
+    const throttledListener = () => {};
+    const debouncedListener = () => {};
+
+    emitter.once('throttledEvent', throttledListener, { throttle: 100 });
+    emitter.on('debouncedEvent', debouncedListener, { debounce: 100 });
+    emitter.off('throttledEvent', throttledListener);
+    emitter.off('debouncedEvent', debouncedListener);
+
+    assert.deepEqual(emitter.subscriptions(), []);
+  });
+
+  it('should resolve waitFor with the args of the first matching emission', async () => {
+    const emitter = new EventEmitter();
+
+    const waitForAny = emitter.waitFor('service.*');
+    const waitForMatch = emitter.waitFor('service.ready', { predicate: (_event, name) => name === 'db' });
+
+    await emitter.emit('service.ready', 'cache');
+    await emitter.emit('service.ready', 'db');
+
+    assert.deepEqual(await waitForAny, ['cache']);
+    assert.deepEqual(await waitForMatch, ['db']);
+    assert.deepEqual(emitter.subscriptions(), []);
+  });
+
+  it('should reject waitFor with a TimeoutError and remove its listener', async () => {
+    const emitter = new EventEmitter();
+
+    try {
+      await emitter.waitFor('neverEmitted', { timeout: 20 });
+      assert.fail('waitFor should have timed out');
+    } catch (error) {
+      assert.instanceOf(error, TimeoutError);
+    }
+
+    assert.deepEqual(emitter.subscriptions(), []);
+  });
+
+  it('should reject waitFor with an AbortError and remove its listener', async () => {
+    const emitter = new EventEmitter();
+    const controller = new AbortController();
+
+    const waiting = emitter.waitFor('neverEmitted', { signal: controller.signal });
+    controller.abort();
+
+    try {
+      await waiting;
+      assert.fail('waitFor should have been aborted');
+    } catch (error) {
+      assert.instanceOf(error, AbortError);
+    }
+
+    assert.deepEqual(emitter.subscriptions(), []);
+  });
+
+  it('should iterate over matching emissions with for await', async () => {
+    const emitter = new EventEmitter();
+    const received: unknown[] = [];
+
+    const consuming = (async () => {
+      for await (const { event, args } of emitter.events('orders.*')) {
+        received.push([event, ...args]);
+        if (received.length === 2) {
+          break;
+        }
+      }
+    })();
+
+    await emitter.emit('orders.created', 1);
+    await emitter.emit('users.created', 2);
+    await emitter.emit('orders.deleted', 3);
+    await consuming;
+
+    assert.deepEqual(received, [
+      ['orders.created', 1],
+      ['orders.deleted', 3]
+    ]);
+    assert.deepEqual(emitter.subscriptions(), []);
+  });
+
+  it('should yield the full topic of emissions matching a multi-level wildcard', async () => {
+    const emitter = new EventEmitter();
+    const iterator = emitter.events('app.**');
+
+    await emitter.emit('app.orders.created', 1);
+    await emitter.emit('app.users.created', 2);
+
+    assert.deepEqual((await iterator.next()).value, { event: 'app.orders.created', args: [1] });
+    assert.deepEqual((await iterator.next()).value, { event: 'app.users.created', args: [2] });
+    await iterator.return?.();
+  });
+
+  it('should remove the iterator listener when return is called', async () => {
+    const emitter = new EventEmitter();
+    const iterator = emitter.events('iteratorEvent');
+
+    await emitter.emit('iteratorEvent', 'buffered');
+    await iterator.return?.();
+
+    assert.deepEqual(emitter.subscriptions(), []);
+    assert.deepEqual(await iterator.next(), { value: undefined, done: true });
+  });
+
+  it('should route multi-level topics with wildcards and globstars', async () => {
+    const emitter = new EventEmitter();
+    const result: string[] = [];
+
+    emitter.on('app.orders.created', () => {
+      result.push('exact');
+    });
+    emitter.on('app.*.created', () => {
+      result.push('wildcard');
+    });
+    emitter.on('app.**', () => {
+      result.push('globstar');
+    });
+    emitter.on(
+      'app:**:created',
+      () => {
+        result.push('custom separator');
+      },
+      { separator: ':' }
+    );
+
+    await emitter.emit('app.orders.created');
+    await emitter.emit('app.users.created');
+    await emitter.emit('app.eu.orders.created');
+    await emitter.emit('app:eu:orders:created');
+
+    assert.deepEqual(result, ['exact', 'wildcard', 'globstar', 'wildcard', 'globstar', 'globstar', 'custom separator']);
+  });
+
+  it('should report and record the full topic', async () => {
+    const emitter = new EventEmitter();
+    const listener = () => {};
+
+    emitter.on('app.orders.created', listener, { priority: 1 });
+    emitter.on('app.users.created', listener);
+
+    assert.deepEqual(emitter.subscriptions(), [
+      { event: 'app.orders.created', listenerCount: 1 },
+      { event: 'app.users.created', listenerCount: 1 }
+    ]);
+    assert.lengthOf(emitter.inspectSubscription('app.orders.created'), 1);
+    assert.strictEqual(emitter.inspectSubscription('app.orders.created')[0].priority, 1);
+
+    await emitter.emit('app.users.created');
+    assert.deepEqual(
+      emitter.getAllEventHistory().map(history => history.event),
+      ['app.users.created']
+    );
+
+    emitter.off('app.orders.created', listener);
+    assert.deepEqual(emitter.subscriptions(), [{ event: 'app.users.created', listenerCount: 1 }]);
+  });
+
+  it('should infer payload types for globstar patterns', async () => {
+    const emitter = new EventEmitter<{
+      'app.orders.created': [orderId: number];
+      'app.users.created': [name: string];
+    }>();
+    const received: Array<number | string> = [];
+
+    emitter.on('app.**', (_event, payload) => {
+      const value: number | string = payload;
+      received.push(value);
+    });
+
+    await emitter.emit('app.orders.created', 1);
+    await emitter.emit('app.users.created', 'name');
+
+    assert.deepEqual(received, [1, 'name']);
+  });
+
+  it('should prune empty topic nodes when listeners are removed', () => {
+    const emitter = new EventEmitter();
+    const listener = () => {};
+
+    emitter.on('app.orders.created', listener);
+    emitter.on('app.orders', listener);
+    emitter.off('app.orders.created', listener);
+
+    assert.lengthOf(getStoredListeners(emitter, defaultSeparator, 'app', 'orders'), 1);
+    assert.isFalse(
+      emitter
+        .getListenerManager()
+        ['topicTries'].get(defaultSeparator)
+        ?.children.get('app')
+        ?.children.get('orders')
+        ?.children.has('created')
+    );
+
+    emitter.off('app.orders', listener);
+
+    assert.strictEqual(emitter.getListenerManager()['topicTries'].size, 0);
+  });
+
+  it('should route topics whose segments are object prototype keys', async () => {
+    const emitter = new EventEmitter();
+    const result: string[] = [];
+
+    emitter.on('constructor.toString', () => {
+      result.push('Listener');
+    });
+
+    await emitter.emit('constructor.toString');
+    await emitter.emit('constructor.valueOf');
+
+    assert.deepEqual(result, ['Listener']);
+  });
+
+  it('should scope listener filters to the listener that declared them', async () => {
+    const emitter = new EventEmitter();
+    const result: string[] = [];
+
+    emitter.on(
+      'orders.*',
+      () => {
+        result.push('filtered');
+      },
+      { filter: eventName => eventName === 'created' }
+    );
+    emitter.on('orders.*', (eventName: string) => {
+      result.push(`unfiltered ${eventName}`);
+    });
+
+    await emitter.emit('orders.created');
+    await emitter.emit('orders.deleted');
+
+    assert.deepEqual(result, ['filtered', 'unfiltered created', 'unfiltered deleted']);
+  });
+
+  it('should not keep filters of removed listeners', async () => {
+    const emitter = new EventEmitter();
+    const filteredListener = () => {};
+    let callCount = 0;
+
+    emitter.on('filteredEvent', filteredListener, { filter: () => false });
+    emitter.off('filteredEvent', filteredListener);
+    emitter.on('filteredEvent', () => {
+      callCount++;
+    });
+
+    await emitter.emit('filteredEvent');
+
+    assert.strictEqual(callCount, 1);
+  });
+
+  it('should gate every listener with global filters without affecting listener filters', async () => {
+    const emitter = new EventEmitter();
+    const result: string[] = [];
+    const maintenanceFilter: EventFilter = (_eventName, namespace) => namespace !== 'maintenance';
+
+    emitter.on('*', (eventName: string) => {
+      result.push(`any ${eventName}`);
+    });
+    emitter.on(
+      '*',
+      (eventName: string) => {
+        result.push(`alerts ${eventName}`);
+      },
+      { filter: eventName => eventName === 'alert' }
+    );
+
+    emitter.addGlobalFilter(maintenanceFilter);
+    await emitter.emit('maintenance.alert');
+    await emitter.emit('system.alert');
+    await emitter.emit('system.info');
+
+    emitter.removeGlobalFilter(maintenanceFilter);
+    await emitter.emit('maintenance.alert');
+
+    assert.deepEqual(result, ['any alert', 'alerts alert', 'any info', 'any alert', 'alerts alert']);
+  });
+
+  it('should only call listeners whose predicate matches the payload', async () => {
+    const emitter = new EventEmitter<{ 'orders.paid': [{ status: string; amount: number }] }>();
+    const result: string[] = [];
+    const contexts: unknown[] = [];
+
+    emitter.on(
+      'orders.paid',
+      (_eventName, order) => {
+        result.push(`large ${order.amount}`);
+      },
+      {
+        predicate: (context, order) => {
+          contexts.push(context);
+          return order.amount > 1000;
+        }
+      }
+    );
+    emitter.on(
+      'orders.*',
+      (_eventName, order) => {
+        result.push(`matched ${order.amount}`);
+      },
+      { predicate: { status: 'paid', amount: { $gte: 500 } } }
+    );
+
+    await emitter.emit('orders.paid', { status: 'paid', amount: 1500 });
+    await emitter.emit('orders.paid', { status: 'paid', amount: 500 });
+    await emitter.emit('orders.paid', { status: 'open', amount: 100 });
+
+    assert.deepEqual(result, ['large 1500', 'matched 1500', 'matched 500']);
+    assert.deepEqual(contexts[0], {
+      event: 'orders.paid',
+      eventName: 'paid',
+      namespace: 'orders',
+      pattern: 'orders.paid'
+    });
+  });
+
+  it('should not count calls skipped by a predicate towards maxCalls', async () => {
+    const emitter = new EventEmitter();
+    const amounts: number[] = [];
+
+    emitter.once(
+      'payment',
+      (_eventName: string, payment: { amount: number }) => {
+        amounts.push(payment.amount);
+      },
+      { predicate: { amount: { $gt: 10 } } }
+    );
+
+    await emitter.emit('payment', { amount: 5 });
+    await emitter.emit('payment', { amount: 20 });
+    await emitter.emit('payment', { amount: 30 });
+
+    assert.deepEqual(amounts, [20]);
+  });
+
+  it('should skip listeners whose predicate throws and report the error', async () => {
+    const emitter = new EventEmitter();
+    const originalConsoleError = console.error;
+    const errors: unknown[] = [];
+    let callCount = 0;
+
+    console.error = (...args: unknown[]) => {
+      errors.push(args[0]);
+    };
+
+    try {
+      emitter.on(
+        'payment',
+        () => {
+          callCount++;
+        },
+        {
+          predicate: () => {
+            throw new Error('Broken predicate');
+          }
+        }
+      );
+
+      await emitter.emit('payment', { amount: 5 });
+    } finally {
+      console.error = originalConsoleError;
+    }
+
+    assert.strictEqual(callCount, 0);
+    assert.include(String(errors[0]), 'payment');
+  });
+
+  it('should expose the predicate when inspecting a subscription', () => {
+    const emitter = new EventEmitter();
+    const predicate = { status: 'paid' };
+
+    emitter.on('orders.paid', () => {}, { predicate });
+    emitter.on('orders.paid', () => {});
+
+    const [withPredicate, withoutPredicate] = emitter.inspectSubscription('orders.paid');
+
+    assert.strictEqual(withPredicate.predicate, predicate);
+    assert.notProperty(withoutPredicate, 'predicate');
+  });
+
+  it('should pass listener errors to the onError handler instead of logging them', async () => {
+    const reported: ListenerErrorEvent[] = [];
+    const emitter = new EventEmitter({
+      separator: defaultSeparator,
+      onError: error => {
+        reported.push(error);
+      }
+    });
+    const originalConsoleError = console.error;
+    let logged = false;
+
+    console.error = () => {
+      logged = true;
+    };
+
+    const error = new Error('Listener Error');
+    emitter.on('orders.created', () => {
+      throw error;
+    });
+
+    try {
+      await emitter.emit('orders.created', 42);
+    } finally {
+      console.error = originalConsoleError;
+    }
+
+    const [listener] = emitter.inspectSubscription('orders.created');
+    assert.isFalse(logged);
+    assert.deepEqual(reported, [{ event: 'orders.created', listenerId: listener.id, error, args: [42] }]);
+  });
+
+  it('should deliver listener errors to the reserved error event without looping', async () => {
+    const emitter = new EventEmitter();
+    const originalConsoleError = console.error;
+    const logged: unknown[] = [];
+    const received: ListenerErrorEvent[] = [];
+
+    console.error = (...args: unknown[]) => {
+      logged.push(args[0]);
+    };
+
+    emitter.on('payment', () => {
+      throw new Error('Listener Error');
+    });
+    emitter.on('error', (_eventName: string, listenerError: ListenerErrorEvent) => {
+      received.push(listenerError);
+      throw new Error('Error Listener Error');
+    });
+
+    try {
+      await emitter.emit('payment', { amount: 5 });
+    } finally {
+      console.error = originalConsoleError;
+    }
+
+    assert.lengthOf(received, 1);
+    assert.strictEqual(received[0].event, 'payment');
+    assert.strictEqual(received[0].error.message, 'Listener Error');
+    assert.deepEqual(received[0].args, [{ amount: 5 }]);
+    assert.strictEqual(logged[0], 'Error in listener for event error:');
+    assert.lengthOf(logged, 2);
+  });
+
+  it('should reject emit with the first listener error with the fail-fast policy', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, errorPolicy: 'fail-fast', onError: () => {} });
+    let slowListenerFinished = false;
+
+    emitter.on('task', async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      slowListenerFinished = true;
+    });
+    emitter.on('task', () => {
+      throw new Error('First Error');
+    });
+
+    try {
+      await emitter.emit('task');
+      assert.fail('emit should reject');
+    } catch (error) {
+      assert.strictEqual((error as Error).message, 'First Error');
+    }
+
+    assert.isFalse(slowListenerFinished);
+  });
+
+  it('should reject emit with an AggregateError after all listeners with the aggregate policy', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, errorPolicy: 'aggregate', onError: () => {} });
+    let slowListenerFinished = false;
+
+    emitter.on('task', async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      slowListenerFinished = true;
+    });
+    emitter.on('task', () => {
+      throw new Error('First Error');
+    });
+    emitter.on('task', async () => {
+      throw new Error('Second Error');
+    });
+
+    try {
+      await emitter.emit('task');
+      assert.fail('emit should reject');
+    } catch (error) {
+      assert.instanceOf(error, AggregateError);
+      assert.deepEqual(
+        (error as AggregateError).errors.map(({ message }: Error) => message),
+        ['First Error', 'Second Error']
+      );
+    }
+
+    assert.isTrue(slowListenerFinished);
+  });
+
+  it('should run emit middlewares around every emit and let them rewrite the event', async () => {
+    const emitter = new EventEmitter();
+    const steps: string[] = [];
+
+    emitter.use(async (context, next) => {
+      steps.push(`before ${context.event}`);
+      context.event = `v2.${context.event}`;
+      context.args = [...context.args, 'enriched'];
+      await next();
+      steps.push('after');
+    });
+    emitter.on('v2.orders.created', (_eventName: string, ...args: unknown[]) => {
+      steps.push(`listener ${args.join(' ')}`);
+    });
+
+    await emitter.emit('orders.created', 'order');
+
+    assert.deepEqual(steps, ['before orders.created', 'listener order enriched', 'after']);
+  });
+
+  it('should skip the delivery when an emit middleware does not call next', async () => {
+    const emitter = new EventEmitter();
+    let callCount = 0;
+    const blockInternal: EmitMiddleware = async (context, next) => {
+      if (!context.event.startsWith('internal.')) {
+        await next();
+      }
+    };
+
+    emitter.use(blockInternal);
+    emitter.on('**', () => {
+      callCount++;
+    });
+
+    await emitter.emit('internal.cache');
+    await emitter.emit('orders.created');
+    emitter.removeMiddleware(blockInternal);
+    await emitter.emit('internal.cache');
+
+    assert.strictEqual(callCount, 2);
+  });
+
+  it('should run listener middlewares around every listener with the emit metadata', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, onError: () => {} });
+    const steps: string[] = [];
+
+    emitter.use(async (context, next) => {
+      context.metadata.user = 'alice';
+      await next();
+    });
+    emitter.useListener(async (context, next) => {
+      context.args = [`${context.args[0]} by ${context.metadata.user}`];
+      try {
+        await next();
+        steps.push(`completed ${context.listenerId === failingListenerId ? 'failing' : 'passing'}`);
+      } catch (error) {
+        steps.push(`failed ${(error as Error).message}`);
+        throw error;
+      }
+    });
+
+    emitter.on('task', (_eventName: string, task: string) => {
+      steps.push(task);
+    });
+    emitter.on('task', () => {
+      throw new Error('Listener Error');
+    });
+    const [, { id: failingListenerId }] = emitter.inspectSubscription('task');
+
+    await emitter.emit('task', 'cleanup');
+
+    assert.deepEqual(steps, ['cleanup by alice', 'completed passing', 'failed Listener Error']);
+  });
+
+  it('should reject emit when a middleware throws', async () => {
+    const emitter = new EventEmitter();
+
+    emitter.use(() => {
+      throw new Error('Unauthorized');
+    });
+
+    try {
+      await emitter.emit('orders.created');
+      assert.fail('emit should reject');
+    } catch (error) {
+      assert.strictEqual((error as Error).message, 'Unauthorized');
+    }
+  });
+
+  it('should keep only the newest history entries within maxEntries', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, history: { maxEntries: 2 } });
+    emitter.on('tick', () => {});
+
+    await emitter.emit('tick', 1);
+    await emitter.emit('tick', 2);
+    await emitter.emit('tick', 3);
+
+    assert.deepEqual(
+      emitter.getAllEventHistory().map(history => history.args),
+      [[2], [3]]
+    );
+  });
+
+  it('should drop history entries older than maxAge', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, history: { maxAge: 30 } });
+    emitter.on('tick', () => {});
+
+    await emitter.emit('tick', 1);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await emitter.emit('tick', 2);
+
+    assert.deepEqual(
+      emitter.getAllEventHistory().map(history => history.args),
+      [[2]]
+    );
+  });
+
+  it('should enable and disable the history per emitter and per namespace', async () => {
+    const emitter = new EventEmitter({
+      separator: defaultSeparator,
+      history: { namespaces: { metrics: false, 'metrics.billing': true } }
+    });
+    emitter.on('**', () => {});
+
+    await emitter.emit('metrics.cpu');
+    await emitter.emit('metrics.billing.invoice');
+    await emitter.emit('orders.created');
+
+    assert.deepEqual(
+      emitter.getAllEventHistory().map(history => history.event),
+      ['metrics.billing.invoice', 'orders.created']
+    );
+
+    emitter.setGlobalOptions({ separator: defaultSeparator, history: { enabled: false } });
+    await emitter.emit('orders.created');
+
+    assert.lengthOf(emitter.getAllEventHistory(), 2);
+  });
+
+  it('should query the history by pattern, listener, time range and outcome with pagination', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, onError: () => {} });
+    emitter.on('orders.*', () => {});
+    emitter.on('orders.failed', () => {
+      throw new Error('Listener Error');
+    });
+    emitter.on('users.created', () => {});
+    const [ordersListener] = emitter.inspectSubscription('orders.*');
+
+    const start = Date.now();
+    for (let index = 0; index < 3; index++) {
+      await emitter.emit('orders.created', index);
+    }
+    await emitter.emit('orders.failed');
+    await emitter.emit('users.created');
+
+    assert.deepEqual(
+      emitter.queryHistory({ pattern: 'orders.created', offset: 1, limit: 1 }).map(history => history.args),
+      [[1]]
+    );
+    assert.lengthOf(emitter.queryHistory({ pattern: 'orders.*' }), 5);
+    assert.lengthOf(emitter.queryHistory({ listenerId: ordersListener.id }), 4);
+    assert.lengthOf(emitter.queryHistory({ from: start, to: Date.now() }), 6);
+    assert.lengthOf(emitter.queryHistory({ to: start - 1 }), 0);
+
+    const [failure] = emitter.queryHistory({ outcome: 'error' });
+    assert.strictEqual(failure.event, 'orders.failed');
+    assert.strictEqual(failure.error?.message, 'Listener Error');
+
+    emitter.clearHistory();
+
+    assert.lengthOf(emitter.queryHistory(), 0);
+  });
+
+  it('should record the history into the configured store', async () => {
+    const store = new MemoryHistoryStore({ maxEntries: 10 });
+    const emitter = new EventEmitter({ separator: defaultSeparator, history: { store, maxEntries: 2 } });
+    emitter.on('tick', () => {});
+
+    await emitter.emit('tick', 1);
+    await emitter.emit('tick', 2);
+    await emitter.emit('tick', 3);
+    await emitter.flushHistory();
+
+    assert.lengthOf(store.read(), 3);
+    assert.deepEqual(
+      emitter.getAllEventHistory().map(history => history.args),
+      [[2], [3]]
+    );
+  });
+
+  it('should replay every recorded emission once in time order', async () => {
+    const recorder = new EventEmitter();
+    recorder.on('orders.*', () => {});
+    recorder.on('orders.created', () => {});
+
+    await recorder.emit('orders.created', 1);
+    await recorder.emit('orders.paid', 2);
+
+    const history = recorder.getAllEventHistory();
+    const emitter = new EventEmitter();
+    const received: string[] = [];
+    emitter.on('orders.*', (eventName: string, id: number) => {
+      received.push(`${eventName} ${id}`);
+    });
+
+    const replayed = await emitter.replay(history);
+    const [listener] = emitter.inspectSubscription('orders.*');
+
+    assert.lengthOf(history, 3);
+    assert.strictEqual(history[0].emitId, history[1].emitId);
+    assert.deepEqual(received, ['created 1', 'paid 2']);
+    assert.deepEqual(
+      replayed.map(({ event, args, listenerIds }) => ({ event, args, listenerIds })),
+      [
+        { event: 'orders.created', args: [1], listenerIds: [listener.id] },
+        { event: 'orders.paid', args: [2], listenerIds: [listener.id] }
+      ]
+    );
+  });
+
+  it('should only report the listeners which would be executed in a dry run', async () => {
+    const emitter = new EventEmitter();
+    let callCount = 0;
+    emitter.on('payment', () => callCount++, { predicate: { amount: { $gt: 10 } } });
+    emitter.on('payment', () => callCount++);
+    const [large, any] = emitter.inspectSubscription('payment');
+    const history: EventHistory[] = [
+      { event: 'payment', listenerId: 'recorded', timestamp: 1, args: [{ amount: 5 }], outcome: 'success' },
+      { event: 'payment', listenerId: 'recorded', timestamp: 2, args: [{ amount: 50 }], outcome: 'success' }
+    ];
+
+    const replayed = await emitter.replay(history, { dryRun: true });
+
+    assert.strictEqual(callCount, 0);
+    assert.deepEqual(
+      replayed.map(({ listenerIds }) => listenerIds),
+      [[any.id], [large.id, any.id]]
+    );
+  });
+
+  it('should replay only filtered entries to the target listeners', async () => {
+    const emitter = new EventEmitter();
+    const received: string[] = [];
+    emitter.on('sync', (_eventName: string, id: number) => {
+      received.push(`target ${id}`);
+    });
+    emitter.on('sync', (_eventName: string, id: number) => {
+      received.push(`other ${id}`);
+    });
+    const [target] = emitter.inspectSubscription('sync');
+    const history: EventHistory[] = [1, 2, 3].map(id => ({
+      event: 'sync',
+      listenerId: 'recorded',
+      timestamp: id,
+      args: [id],
+      outcome: 'success'
+    }));
+
+    await emitter.replay(history, { filter: entry => entry.args[0] !== 2, targetListeners: [target.id] });
+
+    assert.deepEqual(received, ['target 1', 'target 3']);
+  });
+
+  it('should replay with the recorded timing scaled by the speed and stop once aborted', async () => {
+    const emitter = new EventEmitter();
+    const controller = new AbortController();
+    const history: EventHistory[] = [0, 80, 1000].map(timestamp => ({
+      event: 'tick',
+      listenerId: 'recorded',
+      timestamp,
+      args: [timestamp],
+      outcome: 'success'
+    }));
+    const received: number[] = [];
+    emitter.on('tick', (_eventName: string, timestamp: number) => {
+      received.push(timestamp);
+      if (timestamp === 80) {
+        controller.abort();
+      }
+    });
+
+    const start = Date.now();
+    try {
+      await emitter.replay(history, { speed: 2, signal: controller.signal });
+      assert.fail('replay should reject');
+    } catch (error) {
+      assert.instanceOf(error, AbortError);
+    }
+
+    assert.deepEqual(received, [0, 80]);
+    assert.isAtLeast(Date.now() - start, 35);
+    assert.isBelow(Date.now() - start, 400);
+  });
+
+  it('should deliver the last sticky payloads to listeners added later', async () => {
+    const emitter = new EventEmitter();
+    const received: string[] = [];
+
+    await emitter.emitWithOptions('config.loaded', { sticky: true }, 'v1');
+    await emitter.emitWithOptions('config.loaded', { sticky: true }, 'v2');
+    await emitter.emitWithOptions('auth.userChanged', { sticky: 2 }, 'alice');
+    await emitter.emitWithOptions('auth.userChanged', { sticky: 2 }, 'bob');
+    await emitter.emitWithOptions('auth.userChanged', { sticky: 2 }, 'carol');
+    await emitter.emit('config.loaded', 'not sticky');
+
+    emitter.on('config.loaded', (_eventName: string, version: string) => {
+      received.push(version);
+    });
+    emitter.on('**', (eventName: string, value: string) => {
+      received.push(`${eventName} ${value}`);
+    });
+
+    assert.deepEqual(received, ['v2', 'loaded v2', 'userChanged bob', 'userChanged carol']);
+  });
+
+  it('should keep sticky payloads of events configured in the global options', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, sticky: { 'state.*': 1 } });
+    const received: unknown[] = [];
+
+    await emitter.emit('state.ready', true);
+    await emitter.emit('other.ready', true);
+
+    emitter.once('*.ready', (eventName: string, ready: boolean) => {
+      received.push(ready);
+    });
+    emitter.on('*.ready', () => {}, { predicate: () => false });
+    await emitter.emit('state.ready', false);
+
+    assert.deepEqual(received, [true]);
+    assert.lengthOf(emitter.inspectSubscription('*.ready'), 1);
+  });
+
+  it('should resolve waitFor with a sticky payload and clear sticky payloads by pattern', async () => {
+    const emitter = new EventEmitter();
+
+    await emitter.emitWithOptions('config.loaded', { sticky: true }, 'v1');
+    await emitter.emitWithOptions('auth.userChanged', { sticky: true }, 'alice');
+
+    assert.deepEqual(await emitter.waitFor('config.loaded', { timeout: 10 }), ['v1']);
+
+    emitter.clearSticky('config.*');
+    const received: string[] = [];
+    emitter.on('**', (eventName: string) => {
+      received.push(eventName);
+    });
+    emitter.clearSticky();
+    emitter.on('**', (eventName: string) => {
+      received.push(eventName);
+    });
+
+    assert.deepEqual(received, ['userChanged']);
+  });
+
+  it('should record late sticky deliveries under the original emission', async () => {
+    const emitter = new EventEmitter();
+    const received: string[] = [];
+
+    emitter.on('config.loaded', (_eventName: string, version: string) => received.push(version));
+    await emitter.emitWithOptions('config.loaded', { sticky: true }, 'v1');
+    emitter.on('config.loaded', (_eventName: string, version: string) => received.push(version));
+    emitter.on('config.*', (_eventName: string, version: string) => received.push(version));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const history = emitter.getAllEventHistory();
+    const [root] = history;
+
+    assert.lengthOf(history, 3);
+    assert.lengthOf(new Set(history.map(({ emitId }) => emitId)), 1);
+    assert.lengthOf(emitter.getCausalTree(root.emitId as string)?.entries ?? [], 3);
+
+    received.length = 0;
+    await emitter.replay(history);
+
+    assert.deepEqual(received, ['v1', 'v1', 'v1']);
+  });
+
+  it('should collect the values and errors of listeners in priority order', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, errorPolicy: 'fail-fast', onError: () => {} });
+
+    emitter.on('menu.items', () => ['open'], { priority: 1 });
+    emitter.on('menu.*', async () => ['save', 'close'], { priority: 3 });
+    emitter.on('menu.items', () => {
+      throw new Error('Plugin Error');
+    });
+    emitter.on('menu.items', () => ['hidden'], { predicate: () => false });
+
+    const results = await emitter.emitWithResults<'menu.items', string[]>('menu.items');
+
+    assert.deepEqual(
+      results.map(({ value, error }) => value ?? error?.message),
+      [['save', 'close'], ['open'], 'Plugin Error']
+    );
+    assert.isString(results[0].listenerId);
+  });
+
+  it('should leave dropped throttled calls out of the results and wait for debounced calls', async () => {
+    const emitter = new EventEmitter();
+
+    emitter.on('query', () => 'throttled', { throttle: 1000 });
+    emitter.on('query', () => 'debounced', { debounce: 10 });
+
+    const first = await emitter.emitWithResults('query');
+    const second = await emitter.emitWithResults('query');
+
+    assert.deepEqual(
+      first.map(({ value }) => value),
+      ['throttled', 'debounced']
+    );
+    assert.deepEqual(
+      second.map(({ value }) => value),
+      ['debounced']
+    );
+  });
+
+  it('should invoke exactly one listener and resolve with its value', async () => {
+    const emitter = new EventEmitter();
+
+    emitter.on('config.get', (_eventName: string, key: string) => `value of ${key}`);
+    emitter.on('config.*', () => 'ignored', { predicate: { scope: 'all' } });
+
+    assert.strictEqual(await emitter.invoke<'config.get', string>('config.get', 'theme'), 'value of theme');
+  });
+
+  it('should reject invoke when not exactly one listener matches or the listener fails', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, onError: () => {} });
+    let calls = 0;
+
+    emitter.on('plugins.ask', () => calls++);
+    emitter.on('plugins.*', () => calls++);
+    emitter.on('tasks.fail', () => {
+      throw new Error('Handler Error');
+    });
+
+    const rejections = await Promise.all(
+      ['tools.none', 'plugins.ask', 'tasks.fail'].map(event =>
+        emitter.invoke(event).then(
+          () => undefined,
+          (error: Error) => `${error.name}: ${error.message}`
+        )
+      )
+    );
+
+    assert.deepEqual(rejections, [
+      'InvocationError: No listener matched event tools.none',
+      'InvocationError: 2 listeners matched event plugins.ask, expected exactly one',
+      'Error: Handler Error'
+    ]);
+    assert.strictEqual(calls, 0);
+  });
+
+  it('should leave pending waitFor listeners out of invoke and subscriptions', async () => {
+    const emitter = new EventEmitter();
+
+    const waiting = emitter.waitFor('config.get');
+    emitter.on('config.get', (_eventName: string, key: string) => `value of ${key}`);
+
+    assert.deepEqual(emitter.subscriptions(), [{ event: 'config.get', listenerCount: 1 }]);
+    assert.lengthOf(emitter.inspectSubscription('config.get'), 1);
+    assert.strictEqual(await emitter.invoke<'config.get', string>('config.get', 'theme'), 'value of theme');
+    assert.deepEqual(await waiting, ['theme']);
+  });
+
+  it('should retry failing listeners and record every failed attempt', async () => {
+    const emitter = new EventEmitter({
+      separator: defaultSeparator,
+      onError: () => assert.fail('retries should succeed')
+    });
+    let calls = 0;
+
+    emitter.on(
+      'webhook.received',
+      () => {
+        if (++calls < 3) {
+          throw new Error(`Attempt ${calls} failed`);
+        }
+        return 'processed';
+      },
+      { retry: { attempts: 3, backoff: 'exponential', delay: 1 } }
+    );
+
+    const results = await emitter.emitWithResults('webhook.received', 'payment-1');
+
+    assert.strictEqual(calls, 3);
+    assert.deepEqual(
+      results.map(({ value }) => value),
+      ['processed']
+    );
+    assert.deepEqual(
+      emitter.getAllEventHistory().map(({ outcome }) => outcome),
+      ['error', 'error', 'success']
+    );
+    assert.deepEqual(emitter.getDeadLetters(), []);
+  });
+
+  it('should retry throttled and debounced listeners without rate limiting the retries', async () => {
+    const reported: ListenerErrorEvent[] = [];
+    const emitter = new EventEmitter({
+      separator: defaultSeparator,
+      onError: errorEvent => void reported.push(errorEvent)
+    });
+    const calls = { throttled: 0, debounced: 0 };
+
+    emitter.on(
+      'sync.throttled',
+      () => {
+        calls.throttled++;
+        throw new Error('Throttled failure');
+      },
+      { throttle: 1000, retry: { attempts: 3, delay: 1 } }
+    );
+    emitter.on(
+      'sync.debounced',
+      () => {
+        calls.debounced++;
+        throw new Error('Debounced failure');
+      },
+      { debounce: 5, retry: { attempts: 3, delay: 1 } }
+    );
+
+    await Promise.all([emitter.emit('sync.throttled'), emitter.emit('sync.debounced')]);
+
+    assert.deepEqual(calls, { throttled: 3, debounced: 3 });
+    assert.deepEqual(
+      emitter.getDeadLetters().map(({ event, attempts }) => ({ event, attempts })),
+      [
+        { event: 'sync.throttled', attempts: 3 },
+        { event: 'sync.debounced', attempts: 3 }
+      ]
+    );
+    assert.lengthOf(reported, 2);
+  });
+
+  it('should add calls failing after the last attempt to the dead-letter queue and redrive them', async () => {
+    const reported: ListenerErrorEvent[] = [];
+    const emitter = new EventEmitter({
+      separator: defaultSeparator,
+      onError: errorEvent => {
+        reported.push(errorEvent);
+      }
+    });
+    let available = false;
+
+    emitter.on(
+      'webhook.*',
+      (_eventName: string, payment: string) => {
+        if (!available) {
+          throw new Error('Service unavailable');
+        }
+        return `${payment} processed`;
+      },
+      { retry: { attempts: 2, delay: 1 } }
+    );
+
+    await emitter.emit('webhook.received', 'payment-1');
+    await emitter.emit('webhook.received', 'payment-2');
+
+    const deadLetters = emitter.getDeadLetters();
+    assert.lengthOf(reported, 2);
+    assert.deepEqual(
+      deadLetters.map(({ event, args, attempts, error }) => ({ event, args, attempts, message: error.message })),
+      [
+        { event: 'webhook.received', args: ['payment-1'], attempts: 2, message: 'Service unavailable' },
+        { event: 'webhook.received', args: ['payment-2'], attempts: 2, message: 'Service unavailable' }
+      ]
+    );
+    assert.strictEqual(deadLetters[0].listenerId, emitter.inspectSubscription('webhook.*')[0].id);
+
+    available = true;
+    const results = await emitter.redriveDeadLetters([deadLetters[0].id]);
+
+    assert.deepEqual(
+      results.map(({ value }) => value),
+      ['payment-1 processed']
+    );
+    assert.deepEqual(
+      emitter.getDeadLetters().map(({ id }) => id),
+      [deadLetters[1].id]
+    );
+
+    emitter.purgeDeadLetters();
+    assert.deepEqual(emitter.getDeadLetters(), []);
+  });
+
+  it('should redrive throttled listeners and keep dead letters failing again', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, onError: () => {} });
+    const calls: string[] = [];
+    let available = false;
+
+    emitter.on(
+      'sync.throttled',
+      (_eventName: string, item: string) => {
+        calls.push(item);
+        if (!available) {
+          throw new Error('Service unavailable');
+        }
+        return `${item} synced`;
+      },
+      { throttle: 1000, retry: { attempts: 1 } }
+    );
+
+    await emitter.emit('sync.throttled', 'a');
+    const [deadLetter] = emitter.getDeadLetters();
+
+    const failed = await emitter.redriveDeadLetters();
+    assert.strictEqual(failed[0].error?.message, 'Service unavailable');
+    assert.deepEqual(
+      emitter.getDeadLetters().map(({ id }) => id),
+      [deadLetter.id]
+    );
+
+    available = true;
+    const results = await emitter.redriveDeadLetters();
+
+    assert.deepEqual(calls, ['a', 'a', 'a']);
+    assert.deepEqual(
+      results.map(({ value }) => value),
+      ['a synced']
+    );
+    assert.deepEqual(emitter.getDeadLetters(), []);
+  });
+
+  it('should limit listener executions across the emitter and per namespace', async () => {
+    const emitter = new EventEmitter({
+      separator: defaultSeparator,
+      concurrency: { limit: 3, namespaces: { 'app.db': 1 } }
+    });
+    const running: Record<string, number> = { all: 0, db: 0 };
+    const maxRunning: Record<string, number> = { all: 0, db: 0 };
+
+    const track = (key: string) => async () => {
+      const keys = key === 'db' ? ['all', 'db'] : ['all'];
+      keys.forEach(name => (maxRunning[name] = Math.max(maxRunning[name], ++running[name])));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      keys.forEach(name => running[name]--);
+    };
+    emitter.on('app.db.query', track('db'));
+    emitter.on('app.db.query', track('db'));
+    emitter.on('app.http.request', track('http'));
+    emitter.on('app.http.request', track('http'));
+
+    await Promise.all([
+      emitter.emit('app.db.query'),
+      emitter.emit('app.db.query'),
+      emitter.emit('app.http.request'),
+      emitter.emit('app.http.request')
+    ]);
+
+    assert.deepEqual(maxRunning, { all: 3, db: 1 });
+  });
+
+  it('should let listeners holding the last slot await nested emits', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, concurrency: { limit: 1 } });
+    const steps: string[] = [];
+
+    emitter.on('order.placed', async () => {
+      await emitter.emit('order.billed');
+      steps.push('placed');
+    });
+    emitter.on('order.billed', async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      steps.push('billed');
+    });
+
+    const timeout = new Promise(resolve => setTimeout(() => resolve('timeout'), 200));
+    assert.notStrictEqual(await Promise.race([emitter.emit('order.placed'), timeout]), 'timeout');
+    assert.deepEqual(steps, ['billed', 'placed']);
+  });
+
+  it('should not hold slots while rate limited calls wait for their timers', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, concurrency: { limit: 1 } });
+    const steps: string[] = [];
+
+    emitter.on('search.typed', () => steps.push('search'), { debounce: 100 });
+    emitter.on('page.viewed', () => steps.push('view'));
+
+    const searched = emitter.emit('search.typed');
+    const startTime = Date.now();
+    await emitter.emit('page.viewed');
+
+    assert.isBelow(Date.now() - startTime, 50);
+    assert.deepEqual(steps, ['view']);
+    await searched;
+    assert.deepEqual(steps, ['view', 'search']);
+  });
+
+  it('should apply backpressure to emit once the high-water mark is reached', async () => {
+    const emitter = new EventEmitter({
+      separator: defaultSeparator,
+      concurrency: { limit: 1, highWaterMark: 1, backpressure: 'reject' }
+    });
+    const handled: string[] = [];
+
+    emitter.on('jobs.run', async (_eventName: string, job: string) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      handled.push(job);
+    });
+
+    const first = emitter.emit('jobs.run', 'first');
+    const second = emitter.emit('jobs.run', 'second');
+
+    try {
+      await emitter.emit('jobs.run', 'third');
+      assert.fail('emit should reject');
+    } catch (error) {
+      assert.instanceOf(error, QueueFullError);
+    }
+
+    emitter.setGlobalOptions({ separator: defaultSeparator, concurrency: { limit: 1, highWaterMark: 1 } });
+    const third = emitter.emit('jobs.run', 'third');
+
+    await Promise.all([first, second, third]);
+    assert.deepEqual(handled, ['first', 'second', 'third']);
+  });
+
+  it('should queue calls per listener and settle emit once its queued call ran', async () => {
+    const emitter = new EventEmitter();
+    const handled: string[] = [];
+
+    emitter.on(
+      'upload',
+      async (_eventName: string, file: string) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        handled.push(file);
+      },
+      { concurrency: 1, maxQueueSize: 1 }
+    );
+
+    const first = emitter.emit('upload', 'a');
+    const dropped = emitter.emit('upload', 'b');
+    const queued = emitter.emit('upload', 'c');
+
+    const { droppedListeners } = await dropped;
+    const [subscription] = emitter.inspectSubscription('upload');
+    assert.deepEqual(droppedListeners, [subscription.id]);
+    assert.strictEqual(subscription.queueDepth, 1);
+    assert.isAtLeast(subscription.queueWaitTime, 0);
+    assert.deepEqual(handled, []);
+
+    await first;
+    assert.deepEqual(handled, ['a']);
+
+    await queued;
+    assert.deepEqual(handled, ['a', 'c']);
+    assert.strictEqual(emitter.inspectSubscription('upload')[0].queueDepth, 0);
+  });
+
+  it('should drop the queued calls of a removed listener', async () => {
+    const emitter = new EventEmitter();
+    const handled: string[] = [];
+    const handle = async (eventName: string, file: string) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      handled.push(`${eventName} ${file}`);
+    };
+
+    const { id: offId } = emitter.on('sync.off', handle, { concurrency: 1 });
+    emitter.on('sync.once', handle, { concurrency: 1, maxCalls: 1 });
+
+    const emits = ['a', 'b'].flatMap(file => [emitter.emit('sync.off', file), emitter.emit('sync.once', file)]);
+    emitter.off('sync.off', handle);
+    const results = await Promise.all(emits);
+
+    assert.sameMembers(handled, ['off a', 'once a']);
+    assert.deepEqual(
+      results.map(({ droppedListeners }) => droppedListeners),
+      [[], [], [offId], []]
+    );
+    assert.isEmpty(emitter.inspectSubscription('sync.off'));
+    assert.isEmpty(emitter.inspectSubscription('sync.once'));
+  });
+
+  it('should drop the newest call or reject it once the queue is full', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, onError: () => {} });
+    const handled: string[] = [];
+    const handle = async (eventName: string, file: string) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      handled.push(`${eventName} ${file}`);
+    };
+
+    emitter.on('sync.newest', handle, { concurrency: 1, maxQueueSize: 1, queueOverflow: 'drop-newest' });
+    emitter.on('sync.reject', handle, { concurrency: 1, maxQueueSize: 1, queueOverflow: 'reject' });
+
+    const results = await Promise.all(
+      ['a', 'b', 'c'].flatMap(file => [
+        emitter.emitWithResults('sync.newest', file),
+        emitter.emitWithResults('sync.reject', file)
+      ])
+    );
+
+    assert.sameMembers(handled, ['newest a', 'newest b', 'reject a', 'reject b']);
+    assert.deepEqual(results[4], []);
+    assert.instanceOf(results[5][0].error, QueueFullError);
+  });
+
+  it('should emit synchronously in priority order with filters and history', () => {
+    const emitter = new EventEmitter();
+    const calls: string[] = [];
+
+    emitter.on('app.ready', () => calls.push('low'), { priority: 1 });
+    emitter.on('app.*', (eventName: string) => calls.push(`high ${eventName}`), { priority: 2 });
+    emitter.on('app.ready', () => calls.push('skipped'), { filter: () => false });
+    emitter.on('app.ready', () => calls.push('once'), { maxCalls: 1 });
+
+    emitter.emitSync('app.ready');
+    calls.push('after');
+    emitter.emitSync('app.ready');
+
+    assert.deepEqual(calls, ['high ready', 'low', 'once', 'after', 'high ready', 'low']);
+    assert.lengthOf(emitter.getSpecificEventHistory('app.ready'), 5);
+  });
+
+  it('should report listeners returning a promise from emitSync with an AsyncListenerError', () => {
+    const errors: ListenerErrorEvent[] = [];
+    const emitter = new EventEmitter({ separator: defaultSeparator, onError: error => void errors.push(error) });
+    let called = false;
+
+    emitter.on('save', async () => {});
+    emitter.on('save', () => (called = true), { debounce: 10 });
+    emitter.emitSync('save');
+
+    assert.lengthOf(errors, 2);
+    errors.forEach(({ error }) => assert.instanceOf(error, AsyncListenerError));
+    assert.isFalse(called);
+
+    emitter.setGlobalOptions({ separator: defaultSeparator, errorPolicy: 'fail-fast', onError: () => {} });
+    assert.throws(() => emitter.emitSync('save'), AsyncListenerError);
+  });
+
+  it('should await listeners one by one in priority order in the sequential execution mode', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, execution: 'sequential' });
+    const steps: string[] = [];
+    const step = (name: string, ms: number) => async () => {
+      steps.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      steps.push(`${name} end`);
+    };
+
+    emitter.on('order.*', step('audit', 20), { priority: 2 });
+    emitter.on('order.paid', step('notify', 1), { priority: 1 });
+
+    await emitter.emit('order.paid');
+    assert.deepEqual(steps, ['audit start', 'audit end', 'notify start', 'notify end']);
+
+    steps.length = 0;
+    await emitter.emitWithOptions('order.paid', { execution: 'parallel' });
+    assert.deepEqual(steps, ['audit start', 'notify start', 'notify end', 'audit end']);
+  });
+
+  it('should stop the sequential execution at the first error with the fail-fast policy', async () => {
+    const emitter = new EventEmitter({
+      separator: defaultSeparator,
+      errorPolicy: 'fail-fast',
+      onError: () => {}
+    });
+    let notified = false;
+
+    emitter.on('order.paid', async () => Promise.reject(new Error('audit failed')), { priority: 2 });
+    emitter.on('order.paid', () => (notified = true), { priority: 1 });
+
+    try {
+      await emitter.emitWithOptions('order.paid', { execution: 'sequential' });
+      assert.fail('emit should have been rejected');
+    } catch (error) {
+      assert.strictEqual((error as Error).message, 'audit failed');
+    }
+
+    assert.isFalse(notified);
+  });
+
+  it('should pass the event context to listeners added with the context option', async () => {
+    const emitter = new EventEmitter();
+    const contexts: EventContext[] = [];
+
+    emitter.on('document.*', (context: EventContext) => void contexts.push(context), { context: true });
+    emitter.on('document.beforeSave', (context: EventContext) => void contexts.push(context), { context: true });
+    await emitter.emitWithOptions('document.beforeSave', { source: 'editor' });
+
+    assert.lengthOf(contexts, 2);
+    assert.deepInclude(contexts[0], {
+      event: 'document.beforeSave',
+      eventName: 'beforeSave',
+      namespace: 'document',
+      pattern: 'document.*',
+      source: 'editor'
+    });
+    assert.strictEqual(contexts[1].pattern, 'document.beforeSave');
+    assert.strictEqual(contexts[0].emitId, contexts[1].emitId);
+    assert.isAtMost(contexts[0].timestamp, Date.now());
+  });
+
+  it('should stop the propagation and report a prevented default', async () => {
+    const emitter = new EventEmitter({ separator: defaultSeparator, execution: 'sequential' });
+    const calls: string[] = [];
+
+    emitter.on(
+      'document.beforeSave',
+      async (context: EventContext, doc: { locked: boolean }) => {
+        calls.push('guard');
+        await new Promise(resolve => setTimeout(resolve, 5));
+        if (doc.locked) {
+          context.preventDefault();
+          context.stopPropagation();
+        }
+      },
+      { context: true, priority: 2 }
+    );
+    emitter.on('document.beforeSave', () => calls.push('autosave'));
+
+    assert.deepEqual(await emitter.emit('document.beforeSave', { locked: false }), {
+      propagationStopped: false,
+      defaultPrevented: false,
+      droppedListeners: []
+    });
+    assert.deepEqual(await emitter.emit('document.beforeSave', { locked: true }), {
+      propagationStopped: true,
+      defaultPrevented: true,
+      droppedListeners: []
+    });
+    assert.deepEqual(calls, ['guard', 'autosave', 'guard']);
+  });
+
+  it('should stop the propagation synchronously in emitSync and parallel emits', async () => {
+    const emitter = new EventEmitter();
+    const calls: string[] = [];
+
+    emitter.on('key.down', (context: EventContext) => context.stopPropagation(), { context: true, priority: 1 });
+    emitter.on('key.down', () => calls.push('lower'));
+
+    assert.isTrue(emitter.emitSync('key.down').propagationStopped);
+    assert.isTrue((await emitter.emit('key.down')).propagationStopped);
+    assert.isEmpty(calls);
+  });
+
+  it('should link nested emits to the emission which caused them', async () => {
+    const emitter = new EventEmitter();
+    const audit = new EventEmitter();
+
+    emitter.on('order.created', async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await emitter.emit('invoice.created');
+    });
+    emitter.on('invoice.created', () => audit.emitSync('audit.logged'));
+    audit.on('audit.logged', () => {});
+
+    await Promise.all([emitter.emit('order.created'), emitter.emit('order.created')]);
+
+    const orders = emitter.queryHistory({ pattern: 'order.created' });
+    const invoices = emitter.queryHistory({ pattern: 'invoice.created' });
+    const [logged] = audit.getAllEventHistory();
+
+    assert.lengthOf(invoices, 2);
+    assert.notEqual(orders[0].emitId, orders[1].emitId);
+    assert.sameMembers(
+      invoices.map(({ parentEmitId }) => parentEmitId),
+      orders.map(({ emitId }) => emitId)
+    );
+    invoices.forEach(invoice => {
+      const order = orders.find(({ emitId }) => emitId === invoice.parentEmitId);
+      assert.strictEqual(invoice.correlationId, order?.correlationId);
+    });
+    assert.include(
+      invoices.map(({ emitId }) => emitId),
+      logged.parentEmitId
+    );
+    assert.strictEqual(logged.correlationId, invoices[0].correlationId);
+  });
+
+  it('should return the causal tree of a root emission', async () => {
+    const emitter = new EventEmitter();
+
+    emitter.on('order.created', async () => {
+      await emitter.emit('invoice.created');
+      await emitter.emit('order.confirmed');
+    });
+    emitter.on('invoice.created', async () => emitter.emit('invoice.sent'));
+    emitter.on('invoice.sent', () => {});
+    emitter.on('order.confirmed', () => {});
+
+    await emitter.emit('order.created');
+
+    const [root] = emitter.queryHistory({ pattern: 'order.created' });
+    const tree = emitter.getCausalTree(root.emitId as string);
+
+    assert.strictEqual(tree?.event, 'order.created');
+    assert.deepEqual(
+      tree?.children.map(({ event }) => event),
+      ['invoice.created', 'order.confirmed']
+    );
+    assert.strictEqual(tree?.children[0].children[0].event, 'invoice.sent');
+    assert.isUndefined(emitter.getCausalTree('unknown'));
+  });
+
+  it('should reject payloads failing their schema before routing', async () => {
+    const emitter = new EventEmitter();
+    const calls: unknown[] = [];
+
+    emitter.registerSchema('orders.*', {
+      type: 'object',
+      properties: { id: { type: 'string' }, amount: { type: 'number', minimum: 0 } },
+      required: ['id']
+    });
+    emitter.on('orders.created', (_event, order) => calls.push(order));
+
+    await emitter.emit('orders.created', { id: 'a', amount: 10 });
+    try {
+      await emitter.emit('orders.created', { amount: -1 });
+      assert.fail('emit should have rejected');
+    } catch (error) {
+      assert.instanceOf(error, ValidationError);
+      assert.deepEqual((error as ValidationError).reasons, [
+        'payload.id is required',
+        'payload.amount must be at least 0'
+      ]);
+    }
+    assert.throws(() => emitter.emitSync('orders.created', 'a'), ValidationError);
+
+    assert.deepEqual(calls, [{ id: 'a', amount: 10 }]);
+    const [invalid] = emitter.queryHistory({ outcome: 'invalid' });
+    assert.strictEqual(invalid.listenerId, validationListenerId);
+    assert.strictEqual(invalid.reason, 'payload.id is required; payload.amount must be at least 0');
+    assert.lengthOf(emitter.queryHistory({ outcome: 'invalid' }), 2);
+  });
+
+  it('should leave rejected payloads out of replays and causal trees', async () => {
+    const emitter = new EventEmitter();
+    const calls: unknown[] = [];
+
+    emitter.registerSchema('user.renamed', (name: unknown) => typeof name === 'string' || 'name must be a string');
+    emitter.on('user.renamed', (_event, name) => calls.push(name));
+    await emitter.emit('user.renamed', 'Ada');
+    await emitter.emit('user.renamed', 42).catch(() => undefined);
+
+    const [invalid] = emitter.queryHistory({ outcome: 'invalid' });
+    const replayed = await emitter.replay(emitter.getAllEventHistory());
+
+    assert.deepEqual(calls, ['Ada', 'Ada']);
+    assert.lengthOf(replayed, 1);
+    assert.isUndefined(emitter.getCausalTree(invalid.emitId as string));
+  });
+
+  it('should report invalid payloads to the error handler and deliver them in the warn mode', async () => {
+    const errors: ListenerErrorEvent[] = [];
+    const emitter = new EventEmitter({ separator: '.', validation: 'warn', onError: error => void errors.push(error) });
+    const calls: unknown[] = [];
+
+    emitter.registerSchema('user.renamed', (name: unknown) => typeof name === 'string' || 'name must be a string');
+    emitter.on('user.renamed', (_event, name) => calls.push(name));
+
+    await emitter.emit('user.renamed', 42);
+    emitter.unregisterSchema('user.renamed');
+    await emitter.emit('user.renamed', 43);
+
+    assert.deepEqual(calls, [42, 43]);
+    assert.lengthOf(errors, 1);
+    assert.strictEqual(errors[0].listenerId, validationListenerId);
+    assert.instanceOf(errors[0].error, ValidationError);
+    assert.strictEqual(emitter.queryHistory({ outcome: 'invalid' })[0].reason, 'name must be a string');
+  });
+
+  it('should strip undeclared properties before validating in the strip mode', async () => {
+    const emitter = new EventEmitter();
+    const calls: unknown[] = [];
+    const payload = { id: 'a', secret: 'x', items: [{ sku: 'b', internal: true }] };
+
+    emitter.registerSchema(
+      'orders.created',
+      {
+        type: 'object',
+        properties: { id: { type: 'string' }, items: { type: 'array', items: { properties: { sku: {} } } } },
+        required: ['id']
+      },
+      { mode: 'strip' }
+    );
+    emitter.on('orders.created', (_event, order) => calls.push(order));
+
+    await emitter.emit('orders.created', payload);
+    emitter.emitSync('orders.created', { id: 'c', extra: 1 });
+
+    assert.deepEqual(calls, [{ id: 'a', items: [{ sku: 'b' }] }, { id: 'c' }]);
+    assert.property(payload, 'secret');
+    await emitter.emit('orders.created', { secret: 'x' }).then(
+      () => assert.fail('emit should have rejected'),
+      error => assert.instanceOf(error, ValidationError)
+    );
+  });
+
+  it('should warn once about undeclared and deprecated events once the catalog is used', async () => {
+    const warnings: CatalogWarning[] = [];
+    const emitter = new EventEmitter({ separator: '.', catalog: { onWarning: warning => warnings.push(warning) } });
+
+    emitter.on('debug.trace', () => {});
+    emitter.declareEvent('orders.created', { description: 'Emitted once an order is placed.' });
+    emitter.declareEvent('orders.cancelled', { deprecated: 'use orders.voided' });
+
+    emitter.on('orders.*', () => {});
+    emitter.on('error', () => {});
+    await emitter.emit('orders.created');
+    await emitter.emit('orders.cancelled');
+    emitter.emitSync('orders.cancelled');
+    await emitter.emit('orders.shipped');
+    await emitter.emit('orders.shipped');
+
+    assert.deepEqual(
+      warnings.map(({ type, action, event }) => [type, action, event]),
+      [
+        ['deprecated', 'emit', 'orders.cancelled'],
+        ['undeclared', 'emit', 'orders.shipped']
+      ]
+    );
+    assert.strictEqual(warnings[0].message, 'Emitted deprecated event orders.cancelled: use orders.voided');
+    assert.deepEqual(
+      emitter.getEventCatalog().map(({ topic }) => topic),
+      ['orders.created', 'orders.cancelled']
+    );
+  });
+
+  it('should generate documents from the catalog and the live subscriptions', () => {
+    const emitter = new EventEmitter({ separator: '.', catalog: { warnUndeclared: false } });
+
+    emitter.declareEvent('orders.created', { owner: 'checkout' });
+    emitter.declareEvent('orders.voided');
+    emitter.undeclareEvent('orders.voided');
+    emitter.on('orders.created', () => {});
+    emitter.on('debug.trace', () => {});
+
+    const document = emitter.generateAsyncAPI() as any;
+
+    assert.deepEqual(Object.keys(document.channels), ['orders.created']);
+    assert.strictEqual(document.channels['orders.created']['x-listeners'], 1);
+    assert.include(emitter.generateCatalogMarkdown(), '## Undeclared subscriptions\n\n- `debug.trace`: 1 listener');
+  });
 });
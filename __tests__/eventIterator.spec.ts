@@ -0,0 +1,73 @@
+import { assert } from 'chai';
+import { BufferOverflowError, EventIterator } from '../src';
+
+describe('EventIterator', () => {
+  it('should yield buffered emissions in order', async () => {
+    const iterator = new EventIterator();
+
+    iterator.push('first', 1);
+    iterator.push('second', 2);
+
+    assert.deepEqual(await iterator.next(), { value: { event: 'first', args: [1] }, done: false });
+    assert.deepEqual(await iterator.next(), { value: { event: 'second', args: [2] }, done: false });
+  });
+
+  it('should resolve a waiting consumer on the next emission', async () => {
+    const iterator = new EventIterator();
+
+    const next = iterator.next();
+    iterator.push('event', 'payload');
+
+    assert.deepEqual(await next, { value: { event: 'event', args: ['payload'] }, done: false });
+  });
+
+  it('should drop the oldest emission when the buffer is full', async () => {
+    const iterator = new EventIterator({ bufferSize: 2, overflow: 'drop-oldest' });
+
+    iterator.push('event', 1);
+    iterator.push('event', 2);
+    iterator.push('event', 3);
+
+    assert.deepEqual((await iterator.next()).value?.args, [2]);
+    assert.deepEqual((await iterator.next()).value?.args, [3]);
+  });
+
+  it('should drop the newest emission when the buffer is full', async () => {
+    const iterator = new EventIterator({ bufferSize: 2, overflow: 'drop-newest' });
+
+    iterator.push('event', 1);
+    iterator.push('event', 2);
+    iterator.push('event', 3);
+
+    assert.deepEqual((await iterator.next()).value?.args, [1]);
+    assert.deepEqual((await iterator.next()).value?.args, [2]);
+  });
+
+  it('should reject with a BufferOverflowError and end when the overflow policy is error', async () => {
+    const iterator = new EventIterator({ bufferSize: 1, overflow: 'error' });
+
+    iterator.push('event', 1);
+    iterator.push('event', 2);
+
+    try {
+      await iterator.next();
+      assert.fail('next should have rejected');
+    } catch (error) {
+      assert.instanceOf(error, BufferOverflowError);
+    }
+
+    assert.isTrue(iterator.subscriptionSignal.aborted);
+    assert.deepEqual(await iterator.next(), { value: undefined, done: true });
+  });
+
+  it('should end the iteration when its signal is aborted', async () => {
+    const controller = new AbortController();
+    const iterator = new EventIterator({ signal: controller.signal });
+
+    const next = iterator.next();
+    controller.abort();
+
+    assert.deepEqual(await next, { value: undefined, done: true });
+    assert.isTrue(iterator.subscriptionSignal.aborted);
+  });
+});
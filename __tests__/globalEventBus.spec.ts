@@ -1,5 +1,5 @@
 import { assert } from 'chai';
-import { globalEventBus, GlobalOption, Listener } from '../src';
+import { defaultSeparator, getGlobalEventBus, globalEventBus, GlobalOption, Listener, ValidationError } from '../src';
 import { ListenerManager } from '../src/ListenerManager';
 import { Option } from './../src/Interfaces';
 
@@ -92,4 +92,53 @@ describe('GlobalEventBus', () => {
 
     globalEventBus.off(event, listener);
   });
+
+  it('should return the singleton typed with an event map', async () => {
+    const typedBus = getGlobalEventBus<{ 'session.started': [userId: string] }>();
+    let receivedUserId = '';
+    const listener = (_event: string, userId: string) => {
+      receivedUserId = userId;
+    };
+
+    typedBus.on('session.started', listener);
+    await typedBus.emit('session.started', 'user-1');
+    typedBus.off('session.started', listener);
+
+    assert.strictEqual(typedBus, globalEventBus as unknown);
+    assert.strictEqual(receivedUserId, 'user-1');
+  });
+
+  it('should rethrow listener errors when the error policy is not swallow', async () => {
+    const event = 'failingEvent';
+    const listener: Listener = () => {
+      throw new Error('Listener Error');
+    };
+
+    globalEventBus.setGlobalOptions({ separator: defaultSeparator, errorPolicy: 'fail-fast', onError: () => {} });
+    globalEventBus.on(event, listener);
+
+    try {
+      await globalEventBus.emit(event);
+      assert.fail('emit should reject');
+    } catch (error) {
+      assert.strictEqual((error as Error).message, 'Listener Error');
+    } finally {
+      globalEventBus.off(event, listener);
+      globalEventBus.setGlobalOptions({ separator: defaultSeparator });
+    }
+  });
+
+  it('should throw validation errors under the swallow error policy', async () => {
+    const event = 'validatedEvent';
+    globalEventBus.registerSchema(event, (name: unknown) => typeof name === 'string' || 'name must be a string');
+
+    try {
+      await globalEventBus.emit(event, 1);
+      assert.fail('emit should reject');
+    } catch (error) {
+      assert.instanceOf(error, ValidationError);
+    } finally {
+      globalEventBus.unregisterSchema(event);
+    }
+  });
 });
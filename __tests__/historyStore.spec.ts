@@ -0,0 +1,174 @@
+import { assert } from 'chai';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventEmitter, EventHistory, HistoryStore, MemoryHistoryStore } from '../src';
+import { FileHistoryStore } from '../src/node';
+
+const createEntry = (event: string, args: unknown[] = [], timestamp = Date.now()): EventHistory => ({
+  event,
+  listenerId: 'listener',
+  timestamp,
+  args,
+  outcome: 'success'
+});
+
+describe('MemoryHistoryStore', () => {
+  it('should keep the newest entries within maxEntries', () => {
+    const store = new MemoryHistoryStore({ maxEntries: 2 });
+
+    ['first', 'second', 'third'].forEach(event => store.append(createEntry(event)));
+
+    assert.deepEqual(
+      store.read().map(entry => entry.event),
+      ['second', 'third']
+    );
+  });
+
+  it('should buffer entries until the flush interval elapses', async () => {
+    const store = new MemoryHistoryStore({ maxEntries: 1, flushInterval: 20 });
+
+    store.append(createEntry('first'));
+    store.append(createEntry('second'));
+
+    assert.lengthOf(store.read(), 2);
+
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    assert.deepEqual(
+      store.read().map(entry => entry.event),
+      ['second']
+    );
+  });
+
+  it('should serialize arguments and prune old entries', () => {
+    const store = new MemoryHistoryStore({ serializer: args => args.map(arg => JSON.stringify(arg)) });
+    const payload = { count: 1 };
+
+    store.append(createEntry('old', [], 100));
+    store.append(createEntry('new', [payload], 200));
+    payload.count = 2;
+    store.prune(150);
+
+    assert.deepEqual(store.read(), [createEntry('new', ['{"count":1}'], 200)]);
+  });
+});
+
+describe('FileHistoryStore', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'history-'));
+    path = join(directory, 'history.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should append entries as JSON lines and read them back', () => {
+    const store = new FileHistoryStore({ path });
+    const error = new Error('Listener Error');
+
+    store.append(createEntry('orders.created', [{ id: 1 }], 100));
+    store.append({ ...createEntry('orders.failed', [], 200), outcome: 'error', error });
+    store.close();
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n');
+    const [created, failed] = new FileHistoryStore({ path }).read();
+
+    assert.lengthOf(lines, 2);
+    assert.deepEqual(created, createEntry('orders.created', [{ id: 1 }], 100));
+    assert.instanceOf(failed.error, Error);
+    assert.strictEqual(failed.error?.message, 'Listener Error');
+  });
+
+  it('should be kept by setGlobalOptions calls without history options', async () => {
+    const emitter = new EventEmitter({ separator: '.', history: { store: new FileHistoryStore({ path }) } });
+
+    emitter.on('orders.created', () => {});
+    emitter.emitSync('orders.created');
+    emitter.setGlobalOptions({ separator: '.', errorPolicy: 'fail-fast' });
+    emitter.emitSync('orders.created');
+    await emitter.flushHistory();
+
+    assert.lengthOf(emitter.getAllEventHistory(), 2);
+    assert.lengthOf(new FileHistoryStore({ path }).read(), 2);
+  });
+
+  it('should serialize arguments which are not valid JSON', () => {
+    const store = new FileHistoryStore({ path });
+    const circular: Record<string, unknown> = { id: 1n };
+    circular.self = circular;
+
+    store.append(createEntry('event', [circular, new Date(0), new Set([1]), undefined]));
+    store.close();
+
+    assert.deepEqual(store.read()[0].args, [{ id: '1n', self: '[Circular]' }, '1970-01-01T00:00:00.000Z', [1], null]);
+  });
+
+  it('should buffer entries until flushed and skip unreadable lines', async () => {
+    writeFileSync(path, '{"event":"cut');
+    const store = new FileHistoryStore({ path, flushInterval: 1000 });
+
+    store.append(createEntry('buffered'));
+
+    assert.strictEqual(readFileSync(path, 'utf8'), '{"event":"cut');
+    assert.lengthOf(store.read(), 1);
+
+    store.flush();
+
+    assert.deepEqual(
+      store.read().map(entry => entry.event),
+      ['buffered']
+    );
+
+    store.clear();
+    store.close();
+
+    assert.isTrue(existsSync(path));
+    assert.deepEqual(store.read(), []);
+  });
+
+  it('should buffer entries by default and compact the file to the newest entries', () => {
+    const store = new FileHistoryStore({ path, maxEntries: 2 });
+
+    ['first', 'second', 'third', 'fourth'].forEach(event => store.append(createEntry(event)));
+
+    assert.isFalse(existsSync(path));
+
+    store.close();
+
+    assert.lengthOf(readFileSync(path, 'utf8').trim().split('\n'), 2);
+    assert.deepEqual(
+      new FileHistoryStore({ path }).read().map(entry => entry.event),
+      ['third', 'fourth']
+    );
+  });
+});
+
+describe('HistoryStore', () => {
+  it('should query stores reading asynchronously with fetchHistory', async () => {
+    const entries: EventHistory[] = [];
+    const store: HistoryStore = {
+      append: async entry => void entries.push(entry),
+      read: async () => [...entries],
+      clear: async () => void entries.splice(0)
+    };
+    const emitter = new EventEmitter({ separator: '.', history: { store } });
+
+    emitter.on('orders.created', () => {});
+    await emitter.emit('orders.created', 1);
+    await emitter.emit('orders.created', 2);
+
+    assert.deepEqual(
+      (await emitter.fetchHistory({ offset: 1 })).map(({ args }) => args),
+      [[2]]
+    );
+    assert.throws(() => emitter.queryHistory(), 'The history store reads asynchronously');
+
+    await emitter.clearHistory();
+    assert.deepEqual(await emitter.fetchHistory(), []);
+  });
+});
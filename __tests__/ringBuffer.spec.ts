@@ -0,0 +1,68 @@
+import { assert } from 'chai';
+import { RingBuffer } from '../src';
+
+describe('RingBuffer', () => {
+  it('should keep items in insertion order', () => {
+    const buffer = new RingBuffer<number>(10);
+
+    [1, 2, 3, 4, 5, 6].forEach(item => buffer.push(item));
+
+    assert.strictEqual(buffer.size, 6);
+    assert.deepEqual(buffer.toArray(), [1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should overwrite the oldest items once full', () => {
+    const buffer = new RingBuffer<number>(3);
+
+    [1, 2, 3, 4, 5].forEach(item => buffer.push(item));
+
+    assert.strictEqual(buffer.size, 3);
+    assert.deepEqual(buffer.toArray(), [3, 4, 5]);
+  });
+
+  it('should shift and peek the oldest item', () => {
+    const buffer = new RingBuffer<number>(3);
+
+    [1, 2, 3, 4].forEach(item => buffer.push(item));
+
+    assert.strictEqual(buffer.peek(), 2);
+    assert.strictEqual(buffer.shift(), 2);
+    buffer.push(5);
+    assert.deepEqual(buffer.toArray(), [3, 4, 5]);
+    assert.strictEqual(buffer.shift(), 3);
+    assert.strictEqual(buffer.shift(), 4);
+    assert.strictEqual(buffer.shift(), 5);
+    assert.isUndefined(buffer.shift());
+    assert.isUndefined(buffer.peek());
+  });
+
+  it('should keep the newest items when resized', () => {
+    const buffer = new RingBuffer<number>(5);
+
+    [1, 2, 3, 4, 5, 6].forEach(item => buffer.push(item));
+    buffer.resize(2);
+    buffer.push(7);
+
+    assert.deepEqual(buffer.toArray(), [6, 7]);
+
+    buffer.resize(0);
+    buffer.push(8);
+
+    assert.strictEqual(buffer.size, 0);
+  });
+
+  it('should keep every item with an infinite capacity and clear them', () => {
+    const buffer = new RingBuffer<number>(Infinity);
+
+    for (let item = 0; item < 100; item++) {
+      buffer.push(item);
+    }
+
+    assert.strictEqual(buffer.size, 100);
+    assert.strictEqual(buffer.peek(), 0);
+
+    buffer.clear();
+
+    assert.deepEqual(buffer.toArray(), []);
+  });
+});
@@ -0,0 +1,45 @@
+import { assert } from 'chai';
+import { Semaphore } from '../src';
+
+describe('Semaphore', () => {
+  it('should acquire slots synchronously up to the limit', () => {
+    const semaphore = new Semaphore(2);
+
+    assert.isTrue(semaphore.tryAcquire());
+    assert.isTrue(semaphore.tryAcquire());
+    assert.isFalse(semaphore.tryAcquire());
+    assert.strictEqual(semaphore.active, 2);
+  });
+
+  it('should grant released slots to waiting acquisitions in order', async () => {
+    const semaphore = new Semaphore(1);
+    const granted: number[] = [];
+
+    await semaphore.acquire();
+    const acquisitions = [1, 2].map(waiter => semaphore.acquire().then(() => granted.push(waiter)));
+
+    assert.strictEqual(semaphore.pending, 2);
+    assert.isFalse(semaphore.tryAcquire());
+
+    semaphore.release();
+    await acquisitions[0];
+    assert.deepEqual(granted, [1]);
+
+    semaphore.release();
+    await acquisitions[1];
+    assert.deepEqual(granted, [1, 2]);
+    assert.strictEqual(semaphore.pending, 0);
+    assert.strictEqual(semaphore.active, 1);
+  });
+
+  it('should grant waiting acquisitions when the limit is raised', async () => {
+    const semaphore = new Semaphore(0);
+    const acquisitions = [semaphore.acquire(), semaphore.acquire()];
+
+    semaphore.resize(2);
+    await Promise.all(acquisitions);
+
+    assert.strictEqual(semaphore.active, 2);
+    assert.strictEqual(semaphore.pending, 0);
+  });
+});
@@ -0,0 +1,47 @@
+import { assert } from 'chai';
+import { EventHistory } from '../../src';
+import { buildCausalTree } from '../../src/Utils';
+
+const createEntry = (event: string, timestamp: number, emitId?: string, parentEmitId?: string): EventHistory => ({
+  event,
+  listenerId: `listener-${timestamp}`,
+  timestamp,
+  args: [],
+  outcome: 'success',
+  ...(emitId && { emitId }),
+  ...(parentEmitId && { parentEmitId })
+});
+
+describe('buildCausalTree', () => {
+  it('should link emissions to the emission which caused them, oldest first', () => {
+    const history = [
+      createEntry('invoice.sent', 40, 'c', 'b'),
+      createEntry('order.paid', 30, 'd', 'a'),
+      createEntry('order.created', 10, 'a'),
+      createEntry('invoice.created', 20, 'b', 'a'),
+      createEntry('order.created', 11, 'a')
+    ];
+
+    const tree = buildCausalTree(history, 'a');
+
+    assert.strictEqual(tree?.event, 'order.created');
+    assert.lengthOf(tree?.entries ?? [], 2);
+    assert.deepEqual(
+      tree?.children.map(({ event }) => event),
+      ['invoice.created', 'order.paid']
+    );
+    assert.strictEqual(tree?.children[0].children[0].event, 'invoice.sent');
+    assert.strictEqual(tree?.children[0].parentEmitId, 'a');
+  });
+
+  it('should return the subtree of a nested emission', () => {
+    const history = [createEntry('order.created', 10, 'a'), createEntry('invoice.created', 20, 'b', 'a')];
+
+    assert.strictEqual(buildCausalTree(history, 'b')?.event, 'invoice.created');
+    assert.isEmpty(buildCausalTree(history, 'b')?.children ?? [null]);
+  });
+
+  it('should return undefined for an unknown emission and ignore entries without an emit id', () => {
+    assert.isUndefined(buildCausalTree([createEntry('event', 10)], 'a'));
+  });
+});
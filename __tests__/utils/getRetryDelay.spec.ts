@@ -0,0 +1,31 @@
+import { assert } from 'chai';
+import { defaultRetryDelay } from '../../src';
+import { getRetryDelay } from '../../src/Utils';
+
+describe('getRetryDelay', () => {
+  it('should keep the delay with the fixed backoff', () => {
+    assert.strictEqual(getRetryDelay({ attempts: 3, delay: 50 }, 1), 50);
+    assert.strictEqual(getRetryDelay({ attempts: 3, backoff: 'fixed', delay: 50 }, 2), 50);
+  });
+
+  it('should double the delay after every attempt with the exponential backoff', () => {
+    const retry = { attempts: 4, backoff: 'exponential' as const, delay: 50 };
+
+    assert.deepEqual(
+      [1, 2, 3].map(attempt => getRetryDelay(retry, attempt)),
+      [50, 100, 200]
+    );
+  });
+
+  it('should use the default delay', () => {
+    assert.strictEqual(getRetryDelay({ attempts: 2 }, 1), defaultRetryDelay);
+  });
+
+  it('should add a random part of up to jitter times the delay', () => {
+    for (let i = 0; i < 20; i++) {
+      const retryDelay = getRetryDelay({ attempts: 2, delay: 100, jitter: 0.5 }, 1);
+      assert.isAtLeast(retryDelay, 100);
+      assert.isBelow(retryDelay, 150);
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import { assert } from 'chai';
+import { EventHistory } from '../../src';
+import { groupHistoryByEmission } from '../../src/Utils';
+
+const createEntry = (event: string, timestamp: number, emitId?: string): EventHistory => ({
+  event,
+  listenerId: `listener-${timestamp}`,
+  timestamp,
+  args: [timestamp],
+  outcome: 'success',
+  ...(emitId && { emitId })
+});
+
+describe('groupHistoryByEmission', () => {
+  it('should group entries of the same emission in time order', () => {
+    const history = [
+      createEntry('second', 30, 'b'),
+      createEntry('first', 12, 'a'),
+      createEntry('first', 10, 'a'),
+      createEntry('second', 31, 'b')
+    ];
+
+    assert.deepEqual(groupHistoryByEmission(history), [
+      { event: 'first', args: [10], timestamp: 10 },
+      { event: 'second', args: [30], timestamp: 30 }
+    ]);
+  });
+
+  it('should treat entries without an emit id as separate emissions', () => {
+    const history = [createEntry('event', 10), createEntry('event', 10)];
+
+    assert.lengthOf(groupHistoryByEmission(history), 2);
+  });
+});
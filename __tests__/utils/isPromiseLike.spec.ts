@@ -0,0 +1,17 @@
+import { assert } from 'chai';
+import { isPromiseLike } from '../../src/Utils';
+
+describe('isPromiseLike', () => {
+  it('should detect promises and thenables', () => {
+    assert.isTrue(isPromiseLike(Promise.resolve()));
+    assert.isTrue(isPromiseLike({ then: () => {} }));
+    assert.isTrue(isPromiseLike(Object.assign(() => {}, { then: () => {} })));
+  });
+
+  it('should reject other values', () => {
+    assert.isFalse(isPromiseLike(undefined));
+    assert.isFalse(isPromiseLike(null));
+    assert.isFalse(isPromiseLike(42));
+    assert.isFalse(isPromiseLike({ then: 'later' }));
+  });
+});
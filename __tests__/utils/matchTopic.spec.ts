@@ -0,0 +1,37 @@
+import { assert } from 'chai';
+import { defaultSeparator } from '../../src';
+import { matchTopic } from '../../src/Utils';
+
+describe('matchTopic', () => {
+  it('should match identical topics', () => {
+    assert.isTrue(matchTopic('app.orders.created', 'app.orders.created', defaultSeparator));
+    assert.isFalse(matchTopic('app.orders.created', 'app.users.created', defaultSeparator));
+    assert.isFalse(matchTopic('app.orders', 'app.orders.created', defaultSeparator));
+  });
+
+  it('should match a lone wildcard against every topic', () => {
+    assert.isTrue(matchTopic('*', 'created', defaultSeparator));
+    assert.isTrue(matchTopic('*', 'app.orders.created', defaultSeparator));
+  });
+
+  it('should match exactly one segment with a wildcard', () => {
+    assert.isTrue(matchTopic('app.*.created', 'app.orders.created', defaultSeparator));
+    assert.isTrue(matchTopic('*.created', 'orders.created', defaultSeparator));
+    assert.isFalse(matchTopic('app.*.created', 'app.created', defaultSeparator));
+    assert.isFalse(matchTopic('app.*', 'app.orders.created', defaultSeparator));
+  });
+
+  it('should match any number of segments with a globstar', () => {
+    assert.isTrue(matchTopic('app.**', 'app', defaultSeparator));
+    assert.isTrue(matchTopic('app.**', 'app.orders.created', defaultSeparator));
+    assert.isTrue(matchTopic('**.created', 'app.orders.created', defaultSeparator));
+    assert.isTrue(matchTopic('app.**.created', 'app.eu.orders.created', defaultSeparator));
+    assert.isFalse(matchTopic('app.**.created', 'app.orders.deleted', defaultSeparator));
+    assert.isFalse(matchTopic('app.**', 'other.orders', defaultSeparator));
+  });
+
+  it('should split topics with a custom separator', () => {
+    assert.isTrue(matchTopic('app:*:created', 'app:orders:created', ':'));
+    assert.isFalse(matchTopic('app:*:created', 'app.orders.created', ':'));
+  });
+});
@@ -0,0 +1,45 @@
+import { assert } from 'chai';
+import { matchesPayload } from '../../src/Utils';
+
+describe('matchesPayload', () => {
+  it('should match payloads partially', () => {
+    assert.isTrue(matchesPayload({ status: 'paid' }, { status: 'paid', amount: 10 }));
+    assert.isFalse(matchesPayload({ status: 'paid' }, { status: 'open', amount: 10 }));
+    assert.isTrue(matchesPayload({}, { status: 'paid' }));
+  });
+
+  it('should match nested objects partially and arrays exactly', () => {
+    const payload = { customer: { country: 'LT', tier: 'gold' }, tags: ['a', 'b'] };
+
+    assert.isTrue(matchesPayload({ customer: { country: 'LT' } }, payload));
+    assert.isFalse(matchesPayload({ customer: { country: 'DE' } }, payload));
+    assert.isTrue(matchesPayload({ tags: ['a', 'b'] }, payload));
+    assert.isFalse(matchesPayload({ tags: ['a'] }, payload));
+  });
+
+  it('should evaluate comparison operators', () => {
+    const payload = { amount: 1000 };
+
+    assert.isTrue(matchesPayload({ amount: { $eq: 1000 } }, payload));
+    assert.isTrue(matchesPayload({ amount: { $ne: 999 } }, payload));
+    assert.isTrue(matchesPayload({ amount: { $gt: 999, $lte: 1000 } }, payload));
+    assert.isFalse(matchesPayload({ amount: { $gt: 1000 } }, payload));
+    assert.isTrue(matchesPayload({ amount: { $gte: 1000, $lt: 1001 } }, payload));
+    assert.isFalse(matchesPayload({ missing: { $lt: 1 } }, payload));
+  });
+
+  it('should evaluate membership and existence operators', () => {
+    const payload = { status: 'paid', note: undefined };
+
+    assert.isTrue(matchesPayload({ status: { $in: ['paid', 'refunded'] } }, payload));
+    assert.isFalse(matchesPayload({ status: { $nin: ['paid', 'refunded'] } }, payload));
+    assert.isTrue(matchesPayload({ status: { $exists: true } }, payload));
+    assert.isTrue(matchesPayload({ note: { $exists: false }, missing: { $exists: false } }, payload));
+  });
+
+  it('should not match primitive or missing payloads', () => {
+    assert.isFalse(matchesPayload({ status: 'paid' }, 'paid'));
+    assert.isFalse(matchesPayload({ status: 'paid' }, undefined));
+    assert.isFalse(matchesPayload({ status: 'paid' }, null));
+  });
+});
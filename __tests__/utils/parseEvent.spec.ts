@@ -15,6 +15,12 @@ describe('parseEvent', () => {
     assert.deepStrictEqual(result, ['', 'eventName']);
   });
 
+  it('should keep every segment but the last one as the namespace', () => {
+    const event = 'app.orders.created';
+    const result = parseEvent(event, defaultSeparator);
+    assert.deepStrictEqual(result, ['app.orders', 'created']);
+  });
+
   it('should correctly parse the event with a custom separator', () => {
     const event = 'namespace----eventName';
     const result = parseEvent(event, '----');
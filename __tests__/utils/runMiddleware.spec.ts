@@ -0,0 +1,60 @@
+import { assert } from 'chai';
+import { Middleware } from '../../src';
+import { runMiddleware } from '../../src/Utils';
+
+describe('runMiddleware', () => {
+  it('should run middlewares around the handler in order', async () => {
+    const steps: string[] = [];
+    const middleware =
+      (name: string): Middleware<string[]> =>
+      async (_context, next) => {
+        steps.push(`before ${name}`);
+        await next();
+        steps.push(`after ${name}`);
+      };
+
+    await runMiddleware([middleware('first'), middleware('second')], steps, async () => {
+      steps.push('handler');
+    });
+
+    assert.deepEqual(steps, ['before first', 'before second', 'handler', 'after second', 'after first']);
+  });
+
+  it('should skip the handler when a middleware does not call next', async () => {
+    let handled = false;
+
+    await runMiddleware([() => {}], {}, async () => {
+      handled = true;
+    });
+
+    assert.isFalse(handled);
+  });
+
+  it('should run the handler without middlewares', async () => {
+    let handled = false;
+
+    await runMiddleware([], {}, async () => {
+      handled = true;
+    });
+
+    assert.isTrue(handled);
+  });
+
+  it('should reject when next is called multiple times', async () => {
+    try {
+      await runMiddleware(
+        [
+          async (_context, next) => {
+            await next();
+            await next();
+          }
+        ],
+        {},
+        async () => {}
+      );
+      assert.fail('runMiddleware should reject');
+    } catch (error) {
+      assert.strictEqual((error as Error).message, 'next() called multiple times');
+    }
+  });
+});
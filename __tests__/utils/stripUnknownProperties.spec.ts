@@ -0,0 +1,26 @@
+import { assert } from 'chai';
+import { stripUnknownProperties } from '../../src/Utils';
+
+describe('stripUnknownProperties', () => {
+  it('should remove the properties the schema does not declare at every depth', () => {
+    const schema = {
+      properties: { id: {}, lines: { items: { properties: { sku: {} } } }, meta: {} }
+    };
+    const value = { id: 'a', secret: 'x', lines: [{ sku: 'b', cost: 1 }], meta: { any: true } };
+
+    assert.deepEqual(stripUnknownProperties(schema, value), {
+      id: 'a',
+      lines: [{ sku: 'b' }],
+      meta: { any: true }
+    });
+    assert.property(value, 'secret');
+  });
+
+  it('should keep values the schema does not describe', () => {
+    const value = { id: 'a' };
+
+    assert.strictEqual(stripUnknownProperties({ type: 'object' }, value), value);
+    assert.strictEqual(stripUnknownProperties({ properties: {} }, 'a'), 'a');
+    assert.deepEqual(stripUnknownProperties({ properties: { toString: {} } }, { constructor: 1 }), {});
+  });
+});
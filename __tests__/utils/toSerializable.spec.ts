@@ -0,0 +1,44 @@
+import { assert } from 'chai';
+import { toSerializable } from '../../src/Utils';
+
+describe('toSerializable', () => {
+  it('should keep JSON values', () => {
+    const value = { name: 'order', amount: 10, paid: true, tags: ['a'], note: null };
+
+    assert.deepEqual(toSerializable(value), value);
+  });
+
+  it('should convert values which are not valid JSON', () => {
+    const named = () => {};
+
+    assert.deepEqual(
+      toSerializable([
+        undefined,
+        1n,
+        named,
+        Symbol('id'),
+        NaN,
+        Infinity,
+        new Date(0),
+        new Map([['a', 1]]),
+        new Set([1])
+      ]),
+      [null, '1n', '[Function named]', 'Symbol(id)', 'NaN', 'Infinity', '1970-01-01T00:00:00.000Z', [['a', 1]], [1]]
+    );
+  });
+
+  it('should convert errors and objects with a toJSON method', () => {
+    const error = new TypeError('Invalid');
+
+    assert.deepEqual(toSerializable(error), { name: 'TypeError', message: 'Invalid', stack: error.stack });
+    assert.deepEqual(toSerializable({ toJSON: () => ({ id: 1 }) }), { id: 1 });
+  });
+
+  it('should replace circular references but keep repeated references', () => {
+    const shared = { id: 1 };
+    const circular: Record<string, unknown> = { first: shared, second: shared };
+    circular.self = circular;
+
+    assert.deepEqual(toSerializable(circular), { first: { id: 1 }, second: { id: 1 }, self: '[Circular]' });
+  });
+});
@@ -0,0 +1,44 @@
+import { assert } from 'chai';
+import { validateSchema } from '../../src/Utils';
+
+describe('validateSchema', () => {
+  it('should validate types', () => {
+    assert.isEmpty(validateSchema({ type: 'string' }, 'a'));
+    assert.isEmpty(validateSchema({ type: ['string', 'null'] }, null));
+    assert.isEmpty(validateSchema({ type: 'integer' }, 3));
+    assert.deepEqual(validateSchema({ type: 'integer' }, 3.5), ['payload must be of type integer']);
+    assert.deepEqual(validateSchema({ type: 'number' }, NaN), ['payload must be of type number']);
+    assert.deepEqual(validateSchema({ type: 'object' }, []), ['payload must be of type object']);
+    assert.deepEqual(validateSchema({ type: ['array', 'boolean'] }, 'a'), ['payload must be of type array or boolean']);
+  });
+
+  it('should validate enums, ranges, lengths and patterns', () => {
+    assert.deepEqual(validateSchema({ enum: ['paid', 'open'] }, 'void'), ['payload must be one of "paid", "open"']);
+    assert.deepEqual(validateSchema({ minimum: 1, maximum: 5 }, 6), ['payload must be at most 5']);
+    assert.deepEqual(validateSchema({ minLength: 2, pattern: '^[a-z]+$' }, 'A'), [
+      'payload must have at least 2 characters',
+      'payload must match ^[a-z]+$'
+    ]);
+    assert.deepEqual(validateSchema({ maxItems: 1, items: { type: 'number' } }, [1, 'a']), [
+      'payload must have at most 1 items',
+      'payload[1] must be of type number'
+    ]);
+  });
+
+  it('should validate object properties', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: { id: { type: 'string' as const }, customer: { properties: { country: { minLength: 2 } } } },
+      required: ['id'],
+      additionalProperties: false
+    };
+
+    assert.isEmpty(validateSchema(schema, { id: 'a' }));
+    assert.deepEqual(validateSchema(schema, { customer: { country: 'L' }, extra: 1 }), [
+      'payload.id is required',
+      'payload.customer.country must have at least 2 characters',
+      'payload.extra is not allowed'
+    ]);
+    assert.deepEqual(validateSchema(schema, { id: 1 }, 'order'), ['order.id must be of type string']);
+  });
+});
@@ -0,0 +1,84 @@
+import { EventEmitter } from '../src';
+
+interface BenchmarkResult {
+  benchmark: string;
+  operations: number;
+  'ops/sec': number;
+  'µs/op': number;
+}
+
+const subscriptionCount = Number(process.env.BENCH_SUBSCRIPTIONS ?? 5000);
+const operationCount = Number(process.env.BENCH_OPERATIONS ?? 2000);
+
+const domains = ['orders', 'users', 'payments', 'invoices', 'shipments'];
+const actions = ['created', 'updated', 'deleted', 'archived'];
+
+/**
+ * Measures the average duration of an operation over the given number of runs.
+ * @param benchmark - The name of the benchmark.
+ * @param operations - The number of times the operation is run.
+ * @param operation - The operation to measure, receiving the run index.
+ * @returns The measured result.
+ */
+const measure = async (
+  benchmark: string,
+  operations: number,
+  operation: (index: number) => unknown
+): Promise<BenchmarkResult> => {
+  const start = process.hrtime.bigint();
+  for (let index = 0; index < operations; index++) {
+    await operation(index);
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  return {
+    benchmark,
+    operations,
+    'ops/sec': Math.round((operations / elapsedMs) * 1000),
+    'µs/op': Math.round((elapsedMs / operations) * 1000 * 100) / 100
+  };
+};
+
+/**
+ * Creates an emitter with `subscriptionCount` three-level subscriptions, a few of them using wildcards.
+ * @returns The populated emitter.
+ */
+const createEmitter = (): EventEmitter => {
+  const emitter = new EventEmitter();
+
+  for (let index = 0; index < subscriptionCount; index++) {
+    const domain = domains[index % domains.length];
+    const action = actions[index % actions.length];
+    emitter.on(`tenant${index}.${domain}.${action}`, () => {});
+  }
+
+  emitter.on('*', () => {});
+  emitter.on('tenant1.**', () => {});
+  emitter.on('*.orders.created', () => {});
+
+  return emitter;
+};
+
+const run = async (): Promise<void> => {
+  const emitter = createEmitter();
+  const listener = () => {};
+
+  const results = [
+    await measure('emit exact topic', operationCount, index =>
+      emitter.emit(`tenant${index % subscriptionCount}.orders.created`)
+    ),
+    await measure('emit unsubscribed topic', operationCount, () => emitter.emit('unknown.topic.name')),
+    await measure('inspectSubscription', operationCount, index =>
+      emitter.inspectSubscription(`tenant${index % subscriptionCount}.orders.created`)
+    ),
+    await measure('on + off', operationCount, index => {
+      emitter.on(`churn${index}.orders.created`, listener);
+      emitter.off(`churn${index}.orders.created`, listener);
+    })
+  ];
+
+  console.log(`${subscriptionCount} subscriptions`);
+  console.table(results);
+};
+
+run();
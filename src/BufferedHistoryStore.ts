@@ -0,0 +1,91 @@
+import { EventHistory, HistoryStore, HistoryStoreOption } from './Interfaces';
+import { HistorySerializer } from './Types';
+
+/**
+ * Base class of history stores which buffer appended entries and write them in batches.
+ */
+export abstract class BufferedHistoryStore implements HistoryStore {
+  private readonly flushInterval: number;
+  private readonly serializer?: HistorySerializer;
+  private pending: EventHistory[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Creates an instance of BufferedHistoryStore.
+   * @param option - Options for the store.
+   * @param option.flushInterval - Time in milliseconds appended entries are buffered before they are written
+   *                               (default is 0, entries are written immediately).
+   * @param option.serializer - A function converting the arguments of appended entries, e.g. into a JSON safe form.
+   */
+  protected constructor({ flushInterval, serializer }: HistoryStoreOption = {}) {
+    this.flushInterval = flushInterval ?? 0;
+    this.serializer = serializer;
+  }
+
+  /**
+   * Appends an entry, writing it immediately or with the next flush.
+   * @param entry - The entry to append.
+   */
+  append(entry: EventHistory): void {
+    this.pending.push(this.serializer ? { ...entry, args: this.serializer(entry.args) } : entry);
+
+    if (this.flushInterval <= 0) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushInterval);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * Reads the written and the buffered entries, oldest first.
+   * @returns The entries of the store.
+   */
+  read(): EventHistory[] {
+    return [...this.readEntries(), ...this.pending];
+  }
+
+  /**
+   * Removes the written and the buffered entries.
+   */
+  clear(): void {
+    this.cancelFlush();
+    this.pending = [];
+    this.clearEntries();
+  }
+
+  /**
+   * Writes the buffered entries.
+   */
+  flush(): void {
+    this.cancelFlush();
+    if (!this.pending.length) {
+      return;
+    }
+
+    const entries = this.pending;
+    this.pending = [];
+    this.writeEntries(entries);
+  }
+
+  /**
+   * Writes the buffered entries and releases the resources of the store.
+   */
+  close(): void {
+    this.flush();
+  }
+
+  protected abstract writeEntries(entries: EventHistory[]): void;
+  protected abstract readEntries(): EventHistory[];
+  protected abstract clearEntries(): void;
+
+  /**
+   * Cancels the scheduled flush.
+   */
+  private cancelFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+}
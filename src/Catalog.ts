@@ -0,0 +1,182 @@
+import { errorEvent } from './Constants';
+import { AsyncAPIOption, CatalogMarkdownOption, DeclaredEvent } from './Interfaces';
+import { matchTopic } from './Utils';
+
+type SubscriptionCount = { event: string; listenerCount: number };
+
+/**
+ * Finds the declaration of an event or subscription pattern, either declared as such or matched by a declared pattern.
+ * @param declarations - The declared events.
+ * @param event - The emitted event or subscribed pattern.
+ * @param separator - The separator used to split topics into segments.
+ * @returns The exact declaration if any, otherwise the first declared pattern matching the event.
+ */
+export const resolveDeclaredEvent = (
+  declarations: DeclaredEvent[],
+  event: string,
+  separator: string
+): DeclaredEvent | undefined => {
+  return (
+    declarations.find(({ topic }) => topic === event) ??
+    declarations.find(({ topic }) => matchTopic(topic, event, separator))
+  );
+};
+
+/**
+ * Checks whether an event or subscription pattern is covered by the catalog. A pattern is covered if it is declared,
+ * matched by a declared pattern or matches at least one declared topic.
+ * @param declarations - The declared events.
+ * @param event - The emitted event or subscribed pattern.
+ * @param separator - The separator used to split topics into segments.
+ * @returns `true` if the event is covered by the catalog; otherwise, `false`.
+ */
+export const isDeclaredEvent = (declarations: DeclaredEvent[], event: string, separator: string): boolean => {
+  return (
+    resolveDeclaredEvent(declarations, event, separator) !== undefined ||
+    declarations.some(({ topic }) => matchTopic(event, topic, separator))
+  );
+};
+
+/**
+ * Counts the listeners receiving a declared topic, summing every subscription whose pattern matches it.
+ * @param subscriptions - The subscribed patterns with their number of listeners.
+ * @param topic - The declared topic.
+ * @param separator - The separator used to split topics into segments.
+ * @returns The number of listeners receiving the topic.
+ */
+const countListeners = (subscriptions: SubscriptionCount[], topic: string, separator: string): number => {
+  return subscriptions
+    .filter(({ event }) => matchTopic(event, topic, separator))
+    .reduce((count, { listenerCount }) => count + listenerCount, 0);
+};
+
+/**
+ * Turns a topic into an identifier usable as a key of an AsyncAPI document.
+ * @param topic - The topic, possibly with wildcards.
+ * @returns The topic with every character but letters, digits, '.', '-' and '_' replaced by '_'.
+ */
+const toAsyncAPIId = (topic: string): string => topic.replace(/[^\w.-]/g, '_');
+
+const sortByTopic = (declarations: DeclaredEvent[]): DeclaredEvent[] =>
+  [...declarations].sort((a, b) => a.topic.localeCompare(b.topic));
+
+/**
+ * Generates an AsyncAPI document describing the declared events. Every declared event is a channel the application
+ * sends, and a channel it receives as well when listeners are subscribed to it. The owner, deprecation and number of
+ * listeners are added as the `x-owner`, `x-deprecated` and `x-listeners` extensions of the channel.
+ * @param declarations - The declared events.
+ * @param subscriptions - The subscribed patterns with their number of listeners.
+ * @param separator - The separator used to split topics into segments.
+ * @param option - Optional. Options of the document.
+ * @param option.version - Optional. The AsyncAPI version, `2.6.0` or `3.0.0`. Default is `3.0.0`.
+ * @param option.title - Optional. The title of the application. Default is `Event Catalog`.
+ * @param option.applicationVersion - Optional. The version of the application. Default is `1.0.0`.
+ * @param option.description - Optional. The description of the application.
+ * @returns The AsyncAPI document, ready to be serialized to JSON or YAML.
+ */
+export const generateAsyncAPI = (
+  declarations: DeclaredEvent[],
+  subscriptions: SubscriptionCount[],
+  separator: string,
+  option: AsyncAPIOption = {}
+): Record<string, unknown> => {
+  const { version = '3.0.0', title = 'Event Catalog', applicationVersion = '1.0.0', description } = option;
+  const info = { title, version: applicationVersion, ...(description !== undefined && { description }) };
+  const channels: Record<string, unknown> = {};
+  const operations: Record<string, unknown> = {};
+
+  for (const { topic, description: channelDescription, schema, owner, deprecated } of sortByTopic(declarations)) {
+    const id = toAsyncAPIId(topic);
+    const listenerCount = countListeners(subscriptions, topic, separator);
+    const message = { name: topic, ...(schema && { payload: schema }) };
+    const extensions = {
+      ...(owner !== undefined && { 'x-owner': owner }),
+      ...(deprecated && { 'x-deprecated': deprecated }),
+      'x-listeners': listenerCount
+    };
+
+    if (version === '2.6.0') {
+      channels[topic] = {
+        ...(channelDescription !== undefined && { description: channelDescription }),
+        subscribe: { operationId: `${id}.send`, message },
+        ...(listenerCount > 0 && { publish: { operationId: `${id}.receive`, message } }),
+        ...extensions
+      };
+      continue;
+    }
+
+    channels[id] = {
+      address: topic,
+      ...(channelDescription !== undefined && { description: channelDescription }),
+      messages: { [id]: message },
+      ...extensions
+    };
+    const actions = listenerCount > 0 ? ['send', 'receive'] : ['send'];
+    actions.forEach(action => {
+      operations[`${id}.${action}`] = {
+        action,
+        channel: { $ref: `#/channels/${id}` },
+        messages: [{ $ref: `#/channels/${id}/messages/${id}` }]
+      };
+    });
+  }
+
+  return version === '2.6.0'
+    ? { asyncapi: version, info, channels }
+    : { asyncapi: version, info, channels, operations };
+};
+
+/**
+ * Generates a Markdown catalog of the declared events with their description, owner, number of listeners, deprecation
+ * and payload schema, followed by the subscriptions to events which are not declared, except the reserved `error` event.
+ * @param declarations - The declared events.
+ * @param subscriptions - The subscribed patterns with their number of listeners.
+ * @param separator - The separator used to split topics into segments.
+ * @param option - Optional. Options of the catalog.
+ * @param option.title - Optional. The title of the catalog. Default is `Event Catalog`.
+ * @returns The Markdown catalog.
+ */
+export const generateCatalogMarkdown = (
+  declarations: DeclaredEvent[],
+  subscriptions: SubscriptionCount[],
+  separator: string,
+  option: CatalogMarkdownOption = {}
+): string => {
+  const { title = 'Event Catalog' } = option;
+  const sections = [`# ${title}`];
+
+  for (const { topic, description, schema, owner, deprecated } of sortByTopic(declarations)) {
+    const details = [
+      ...(owner !== undefined ? [`- Owner: ${owner}`] : []),
+      `- Listeners: ${countListeners(subscriptions, topic, separator)}`,
+      ...(deprecated ? [`- Deprecated: ${typeof deprecated === 'string' ? deprecated : 'yes'}`] : [])
+    ];
+
+    sections.push(
+      [
+        `## \`${topic}\``,
+        ...(description !== undefined ? [description] : []),
+        details.join('\n'),
+        ...(schema ? ['```json\n' + JSON.stringify(schema, null, 2) + '\n```'] : [])
+      ].join('\n\n')
+    );
+  }
+
+  const undeclared = subscriptions.filter(
+    ({ event }) => event !== errorEvent && !isDeclaredEvent(declarations, event, separator)
+  );
+  if (undeclared.length) {
+    sections.push(
+      [
+        '## Undeclared subscriptions',
+        undeclared
+          .map(
+            ({ event, listenerCount }) => `- \`${event}\`: ${listenerCount} listener${listenerCount === 1 ? '' : 's'}`
+          )
+          .join('\n')
+      ].join('\n\n')
+    );
+  }
+
+  return sections.join('\n\n') + '\n';
+};
@@ -1,2 +1,7 @@
 export const defaultSeparator = '.';
 export const defaultWildCard = '*';
+export const defaultGlobstar = '**';
+export const errorEvent = 'error';
+export const validationListenerId = 'validation';
+export const defaultHistorySize = 1000;
+export const defaultRetryDelay = 100;
@@ -0,0 +1,73 @@
+/**
+ * Raised when waiting for an event takes longer than the given timeout.
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Raised when waiting for an event is cancelled through an `AbortSignal`.
+ */
+export class AbortError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Raised when an event iterator buffer is full and its overflow policy is `error`.
+ */
+export class BufferOverflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BufferOverflowError';
+  }
+}
+
+/**
+ * Raised when `invoke` finds no listener or several listeners for an event, or the listener did not run.
+ */
+export class InvocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvocationError';
+  }
+}
+
+/**
+ * Raised when `emit` is called while the listener executions waiting for capacity have reached the high-water mark
+ * and the backpressure policy is `reject`.
+ */
+export class QueueFullError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * Raised when a listener called by `emitSync` returns a promise or is throttled or debounced.
+ */
+export class AsyncListenerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AsyncListenerError';
+  }
+}
+
+/**
+ * Raised when the payload of an emitted event fails the schema registered for it, unless the validation mode is `warn`.
+ */
+export class ValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly reasons: string[] = []
+  ) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -1,9 +1,57 @@
+import { generateAsyncAPI, generateCatalogMarkdown } from './Catalog';
 import { defaultSeparator } from './Constants';
-import { EventHistory, EventInfo, GlobalOption, Option } from './Interfaces';
+import { AbortError, InvocationError, TimeoutError } from './Errors';
+import { EventIterator } from './EventIterator';
+import {
+  AsyncAPIOption,
+  CatalogMarkdownOption,
+  CausalNode,
+  DeadLetter,
+  DeclaredEvent,
+  EmitOption,
+  EmitResult,
+  EmittedEvent,
+  EventDefinition,
+  EventHistory,
+  EventInfo,
+  EventIteratorOption,
+  GlobalOption,
+  HistoryQuery,
+  JsonSchema,
+  ListenerResult,
+  Option,
+  ReplayedEvent,
+  ReplayOption,
+  RetryOption,
+  SchemaOption,
+  Subscription,
+  WaitForOption
+} from './Interfaces';
 import { ListenerManager } from './ListenerManager';
-import { AsyncListener, Listener } from './Types';
+import {
+  AsyncListener,
+  ContextListener,
+  DefaultEventMap,
+  EmitMiddleware,
+  EventArgs,
+  EventFilter,
+  EventKey,
+  EventMap,
+  EventPattern,
+  EventPayload,
+  Listener,
+  ListenerMiddleware,
+  ListenerPredicate,
+  PayloadMatcher,
+  PayloadValidator
+} from './Types';
+import { delay, groupHistoryByEmission } from './Utils';
 
-export class EventEmitter {
+/**
+ * @typeParam TEvents - Optional event map describing the payload tuple of each event, e.g.
+ *                      `{ 'orders.created': [order: Order]; ready: [] }`. Defaults to untyped events.
+ */
+export class EventEmitter<TEvents extends EventMap = DefaultEventMap> {
   private listenerManager: ListenerManager;
   private globalOption: GlobalOption;
 
@@ -11,18 +59,41 @@ export class EventEmitter {
    * Creates an instance of EventEmitter.
    * @param globalOption - Global options for the class.
    * @param globalOption.separator - The separator used across all listeners unless listener contains custom separator.
+   * @param globalOption.onError - A handler receiving the event, listener id, error and arguments of every failed listener.
+   * @param globalOption.errorPolicy - Whether `emit` resolves (`swallow`, default), rejects with the first listener error
+   *                                   (`fail-fast`) or rejects with an `AggregateError` after all listeners (`aggregate`).
+   * @param globalOption.history - Storage and retention of the event history: `enabled`, `maxEntries` (default is 1000),
+   *                               `maxAge`, `namespaces` enabling or disabling the recording per namespace and `store`.
+   * @param globalOption.sticky - Event patterns mapped to the number of payloads kept for listeners added later.
+   * @param globalOption.concurrency - Limits of listener executions running at the same time: `limit` across the
+   *                                   emitter, `namespaces` per namespace, and the `highWaterMark` of waiting
+   *                                   executions from which `emit` waits or rejects, depending on `backpressure`.
+   * @param globalOption.execution - Whether `emit` starts all matching listeners at once (`parallel`, default) or awaits
+   *                                 them one by one in priority order (`sequential`).
+   * @param globalOption.validation - Whether a payload failing its schema rejects the emission (`reject`, default), is
+   *                                  reported to the error handler (`warn`) or loses its undeclared properties (`strip`).
+   * @param globalOption.catalog - Warnings about events emitted or subscribed to which are not declared in the event
+   *                               catalog (`warnUndeclared`) or deprecated (`warnDeprecated`), both enabled by default,
+   *                               passed to `onWarning` or logged to the console.
    */
   constructor(globalOption: GlobalOption = { separator: defaultSeparator }) {
     this.globalOption = { ...globalOption };
     this.listenerManager = new ListenerManager();
+    this.listenerManager.configureHistory(globalOption.history, globalOption.separator);
+    this.listenerManager.configureConcurrency(globalOption.concurrency, globalOption.separator);
   }
 
   /**
-   * Sets global options for the EventEmitter.
+   * Sets global options for the EventEmitter. The `history` and `concurrency` options are kept when omitted, so that a
+   * configured history store and its entries survive e.g. a change of the separator.
    * @param options - Global options, such as the separator.
    */
   setGlobalOptions(options: GlobalOption): void {
-    this.globalOption = { ...options };
+    const { history = this.globalOption.history, concurrency = this.globalOption.concurrency } = options;
+
+    this.globalOption = { ...options, ...(history && { history }), ...(concurrency && { concurrency }) };
+    this.listenerManager.configureHistory(history, options.separator);
+    this.listenerManager.configureConcurrency(concurrency, options.separator);
   }
 
   /**
@@ -50,8 +121,8 @@ export class EventEmitter {
    * @returns {Array<{ event: string, listenerId: string, timestamp: number, args: unknown[] }>}
    * - An array of objects that match the specified event name, each containing the event name, listener ID, timestamp, and arguments.
    */
-  public getSpecificEventHistory(event: string): Array<EventHistory> {
-    return this.listenerManager.getSpecificEventHistory(event);
+  public getSpecificEventHistory<K extends EventKey<TEvents>>(event: K): Array<EventHistory<TEvents[K]>> {
+    return this.listenerManager.getSpecificEventHistory(event) as Array<EventHistory<TEvents[K]>>;
   }
 
   /**
@@ -60,8 +131,91 @@ export class EventEmitter {
    * @returns {Array<{ event: string, listenerId: string, timestamp: number, args: unknown[] }>}
    * - An array of objects, each containing the event name, listener ID, timestamp, and the arguments passed to the listener.
    */
-  public getAllEventHistory(): Array<EventHistory> {
-    return this.listenerManager.getAllEventHistory();
+  public getAllEventHistory(): Array<EventHistory<EventArgs<TEvents>>> {
+    return this.listenerManager.getAllEventHistory() as Array<EventHistory<EventArgs<TEvents>>>;
+  }
+
+  /**
+   * Queries the recorded event histories, oldest first.
+   * @param query - An optional object containing properties like `pattern`, `listenerId`, `from`, `to` and `outcome`.
+   * @param query.pattern - An event or wildcard pattern the event has to match.
+   * @param query.listenerId - The unique identifier of the invoked listener.
+   * @param query.correlationId - The correlation id shared by a root emission and all emissions it caused.
+   * @param query.from - The earliest timestamp, inclusive.
+   * @param query.to - The latest timestamp, inclusive.
+   * @param query.outcome - Whether the listener succeeded (`success`) or threw (`error`), or the payload failed its
+   *                        schema (`invalid`).
+   * @param query.offset - Number of matching entries to skip (default is 0).
+   * @param query.limit - Maximum number of entries returned (default is unlimited).
+   * @returns The matching entries.
+   */
+  public queryHistory(query: HistoryQuery = {}): Array<EventHistory<EventArgs<TEvents>>> {
+    return this.listenerManager.queryHistory(query) as Array<EventHistory<EventArgs<TEvents>>>;
+  }
+
+  /**
+   * Queries the recorded event histories like `queryHistory`, also from history stores reading asynchronously, e.g.
+   * stores backed by a database.
+   * @param query - An optional object containing properties like `pattern`, `listenerId`, `from`, `to` and `outcome`.
+   * @returns A promise that resolves with the matching entries, oldest first.
+   */
+  public async fetchHistory(query: HistoryQuery = {}): Promise<Array<EventHistory<EventArgs<TEvents>>>> {
+    return (await this.listenerManager.fetchHistory(query)) as Array<EventHistory<EventArgs<TEvents>>>;
+  }
+
+  /**
+   * Retrieves the causal tree of an emission, linking it to the emissions made by its listeners, the emissions made
+   * by their listeners, and so on. Only emissions recorded in the history of this emitter are part of the tree,
+   * emissions of other emitters carry the same `correlationId` in their own history. Payloads rejected by their
+   * schema are left out.
+   * @param emitId - The unique identifier of the emission, e.g. the `emitId` of a history entry or event context.
+   * @returns The emission with its `event`, history `entries` and the `children` emissions it caused, oldest first,
+   *          or `undefined` if no entry of the emission is recorded.
+   */
+  public getCausalTree(emitId: string): CausalNode | undefined {
+    return this.listenerManager.getCausalTree(emitId);
+  }
+
+  /**
+   * Removes every recorded event history.
+   * @returns A promise that resolves once the history store has been cleared.
+   */
+  public async clearHistory(): Promise<void> {
+    await this.listenerManager.clearHistory();
+  }
+
+  /**
+   * Writes the entries buffered by the history store, e.g. before the process exits.
+   * @returns A promise that resolves once the buffered entries have been written.
+   */
+  public async flushHistory(): Promise<void> {
+    await this.listenerManager.flushHistory();
+  }
+
+  /**
+   * Lists the listener calls which still failed after their last retry attempt, oldest first.
+   * @returns The dead letters with their event, arguments, listener id, error and number of attempts.
+   */
+  public getDeadLetters(): Array<DeadLetter<EventArgs<TEvents>>> {
+    return this.listenerManager.getDeadLetters() as Array<DeadLetter<EventArgs<TEvents>>>;
+  }
+
+  /**
+   * Calls the listeners of dead letters again with their original event and arguments, one after another.
+   * Dead letters whose listener fails again are added to the queue again.
+   * @param ids - The ids of the dead letters to redrive, all dead letters are redriven if omitted.
+   * @returns A promise that resolves with the value or error of every redriven listener call.
+   */
+  public async redriveDeadLetters(ids?: string[]): Promise<ListenerResult[]> {
+    return this.listenerManager.redriveDeadLetters(this, ids);
+  }
+
+  /**
+   * Removes dead letters from the queue.
+   * @param ids - The ids of the dead letters to remove, all dead letters are removed if omitted.
+   */
+  public purgeDeadLetters(ids?: string[]): void {
+    this.listenerManager.purgeDeadLetters(ids);
   }
 
   /**
@@ -69,15 +223,204 @@ export class EventEmitter {
    * @param event - The event name, possibly with a namespace.
    * @param listener - The function to be called when the event is emitted.
    * @param options - An optional object containing properties like `filter`, `throttle`, `debounce`, and `priority`.
-   * @param options.filter - A filter function to determine whether to emit the event.
-   * @param options.throttle - The time delay (in milliseconds) for throttling the listener's execution.
-   * @param options.debounce - The time delay (in milliseconds) for debouncing the listener's execution.
+   * @param options.filter - A filter function to determine whether to call this listener.
+   * @param options.predicate - A function receiving the event context and arguments, or a declarative matcher for the first argument, to determine whether to call this listener.
+   * @param options.throttle - The time delay (in milliseconds) for throttling the listener's execution, or an object with
+   *                           the `wait` time and whether calls run on the `leading` (default) and `trailing` edge.
+   * @param options.debounce - The time delay (in milliseconds) for debouncing the listener's execution, or an object with
+   *                           the `wait` time, the `maxWait` time and whether the first call runs on the `leading` edge.
    * @param options.priority - The priority of the listener, higher values execute first (default is 0).
    * @param options.concurrency - Maximum number of listeners executed in parallel (default is unlimited).
+   * @param options.maxQueueSize - Maximum number of calls queued once the concurrency limit is reached (default is unlimited).
+   * @param options.queueOverflow - Policy applied when the queue is full: `drop-oldest` (default), `drop-newest` or `reject`.
    * @param options.separator - Separator used for parsing the event (if applicable, default is '.').
+   * @param options.maxCalls - Number of calls after which the listener is removed automatically.
+   * @param options.ttl - Time (in milliseconds) after which the listener is removed automatically.
+   * @param options.signal - An `AbortSignal` which removes the listener once aborted.
+   * @param options.retry - The number of `attempts`, the `backoff` strategy, `delay` and `jitter` for retrying failed calls,
+   *                        calls still failing after the last attempt are added to the dead-letter queue.
+   * @param options.context - Passes the event context instead of the event name as the first argument of the listener.
+   *                          The context carries the topic, namespace, matched pattern, emit id, timestamp and source,
+   *                          and lets the listener stop the propagation or prevent the default.
+   * @returns The subscription with the listener `id`, `flush` running a pending throttled or debounced call right away
+   *          and `cancel` dropping it.
+   */
+  on<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: ContextListener<EventPayload<TEvents, P>>,
+    option: Option<EventPayload<TEvents, P>> & { context: true }
+  ): Subscription;
+  on<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>>,
+    option?: Option<EventPayload<TEvents, P>>
+  ): Subscription;
+  on<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>> | ContextListener,
+    option: Option<EventPayload<TEvents, P>> = {}
+  ): Subscription {
+    return this.listenerManager.addListener(this, event, listener, option);
+  }
+
+  /**
+   * Adds a listener which is removed automatically after its first call.
+   * @param event - The event name, possibly with a namespace.
+   * @param listener - The function to be called when the event is emitted.
+   * @param options - The same options as for `on`, `maxCalls` is always 1.
+   * @returns The subscription of the listener.
+   */
+  once<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: ContextListener<EventPayload<TEvents, P>>,
+    option: Option<EventPayload<TEvents, P>> & { context: true }
+  ): Subscription;
+  once<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>>,
+    option?: Option<EventPayload<TEvents, P>>
+  ): Subscription;
+  once<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>> | ContextListener,
+    option: Option<EventPayload<TEvents, P>> = {}
+  ): Subscription {
+    return this.listenerManager.addListener(this, event, listener, { ...option, maxCalls: 1 });
+  }
+
+  /**
+   * Adds a filter which gates every emitted event, events are only delivered if all global filters pass.
+   * @param filter - A filter function receiving the event name and namespace, parsed with the global separator.
+   */
+  addGlobalFilter(filter: EventFilter): void {
+    this.listenerManager.addGlobalFilter(filter);
+  }
+
+  /**
+   * Removes a previously added global filter.
+   * @param filter - The filter function to be removed.
+   */
+  removeGlobalFilter(filter: EventFilter): void {
+    this.listenerManager.removeGlobalFilter(filter);
+  }
+
+  /**
+   * Registers the schema which validates the payload of the events matching the given event or pattern, replacing the
+   * schema previously registered for the same pattern. Payloads are validated by every emit method before routing.
+   * @param pattern - The event or wildcard pattern (e.g., 'orders.*').
+   * @param schema - A JSON Schema subset validating the first argument, or a validator function receiving all arguments
+   *                 and returning `true`, or `false` or the reason if they are invalid.
+   * @param option - An optional object containing the `mode` of the validation.
+   * @param option.mode - Whether an invalid payload rejects the emission with a `ValidationError` (`reject`), is
+   *                      reported to the error handler and delivered anyway (`warn`) or loses its undeclared properties
+   *                      before being validated (`strip`). Defaults to the `validation` global option.
+   */
+  registerSchema<P extends string>(
+    pattern: P & EventPattern<TEvents, P>,
+    schema: JsonSchema | PayloadValidator<EventPayload<TEvents, P>>,
+    option: SchemaOption = {}
+  ): void {
+    this.listenerManager.registerSchema(pattern, schema as JsonSchema | PayloadValidator, option);
+  }
+
+  /**
+   * Removes the schema registered for the given pattern.
+   * @param pattern - The event or wildcard pattern the schema was registered for.
+   */
+  unregisterSchema(pattern: string): void {
+    this.listenerManager.unregisterSchema(pattern);
+  }
+
+  /**
+   * Declares an event or pattern in the event catalog, replacing its previous declaration. Once an event is declared,
+   * emitting or subscribing to an undeclared or deprecated event is reported once per event according to the `catalog`
+   * global option.
+   * @param topic - The event or wildcard pattern (e.g., 'orders.created').
+   * @param definition - An optional object containing properties like `description`, `schema`, `owner` and `deprecated`.
+   * @param definition.description - Optional. What the event means and when it is emitted.
+   * @param definition.schema - Optional. The JSON Schema subset of the first argument, only used in generated documents,
+   *                            `registerSchema` validates payloads.
+   * @param definition.owner - Optional. The team or module responsible for the event.
+   * @param definition.deprecated - Optional. Whether the event is deprecated, or the deprecation notice.
+   */
+  declareEvent<P extends string>(topic: P & EventPattern<TEvents, P>, definition: EventDefinition = {}): void {
+    this.listenerManager.declareEvent(topic, definition);
+  }
+
+  /**
+   * Removes an event or pattern from the event catalog.
+   * @param topic - The declared event or wildcard pattern.
+   */
+  undeclareEvent(topic: string): void {
+    this.listenerManager.undeclareEvent(topic);
+  }
+
+  /**
+   * Lists the events declared in the event catalog, in the order they were declared.
+   * @returns The declared events with their topic, description, payload schema, owner and deprecation.
+   */
+  getEventCatalog(): DeclaredEvent[] {
+    return this.listenerManager.getDeclaredEvents();
+  }
+
+  /**
+   * Generates an AsyncAPI document from the event catalog and the current subscriptions. Every declared event is a
+   * channel which the application sends, and receives as well when listeners are subscribed to it.
+   * @param option - An optional object containing properties like `version`, `title`, `applicationVersion` and `description`.
+   * @param option.version - The AsyncAPI version, `2.6.0` or `3.0.0` (default).
+   * @param option.title - The title of the application. Default is `Event Catalog`.
+   * @param option.applicationVersion - The version of the application. Default is `1.0.0`.
+   * @param option.description - The description of the application.
+   * @returns The AsyncAPI document, ready to be serialized to JSON or YAML.
+   */
+  generateAsyncAPI(option: AsyncAPIOption = {}): Record<string, unknown> {
+    return generateAsyncAPI(
+      this.listenerManager.getDeclaredEvents(),
+      this.listenerManager.listSubscriptions(),
+      this.globalOption.separator,
+      option
+    );
+  }
+
+  /**
+   * Generates a Markdown catalog of the declared events with their current number of listeners, followed by the
+   * subscriptions to events which are not declared.
+   * @param option - An optional object containing the `title` of the catalog, `Event Catalog` by default.
+   * @returns The Markdown catalog.
+   */
+  generateCatalogMarkdown(option: CatalogMarkdownOption = {}): string {
+    return generateCatalogMarkdown(
+      this.listenerManager.getDeclaredEvents(),
+      this.listenerManager.listSubscriptions(),
+      this.globalOption.separator,
+      option
+    );
+  }
+
+  /**
+   * Adds a middleware which runs around every `emit`. A middleware can rewrite the event and arguments of the context,
+   * skip the delivery by not calling `next`, or observe the completion and errors of `next`.
+   * @param middleware - A function receiving the emit context and the `next` function running the rest of the chain.
+   */
+  use(middleware: EmitMiddleware): void {
+    this.listenerManager.addEmitMiddleware(middleware);
+  }
+
+  /**
+   * Adds a middleware which runs around every listener execution. A middleware can rewrite the arguments passed to the
+   * listener, skip the listener by not calling `next`, or observe the completion and errors of `next`.
+   * @param middleware - A function receiving the listener context and the `next` function running the rest of the chain.
    */
-  on(event: string, listener: Listener | AsyncListener, option: Option = {}): void {
-    this.listenerManager.addListener(this, event, listener, option);
+  useListener(middleware: ListenerMiddleware): void {
+    this.listenerManager.addListenerMiddleware(middleware);
+  }
+
+  /**
+   * Removes a previously added emit or listener middleware.
+   * @param middleware - The middleware function to be removed.
+   */
+  removeMiddleware(middleware: EmitMiddleware | ListenerMiddleware): void {
+    this.listenerManager.removeMiddleware(middleware);
   }
 
   /**
@@ -85,7 +428,10 @@ export class EventEmitter {
    * @param event - The event name, possibly with a namespace.
    * @param listener - The listener function to be removed.
    */
-  off(event: string, listener: Listener | AsyncListener): void {
+  off<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>>
+  ): void {
     this.listenerManager.removeListener(this, event, listener);
   }
 
@@ -93,10 +439,251 @@ export class EventEmitter {
    * Emits the specified event, calling all associated listeners.
    * @param event - The event name, possibly with a namespace.
    * @param args - Additional arguments to be passed to the listeners.
-   * @returns A promise that resolves when all listeners have been executed.
+   * @returns A promise that resolves when all listeners have been executed with whether a listener stopped the
+   *          propagation or prevented the default and the ids of the listeners whose queued call was dropped, or
+   *          rejects according to the error policy. Once the high-water mark of the `concurrency` option is reached, it waits for capacity before delivering
+   *          the event or rejects with a `QueueFullError`.
+   */
+  async emit<K extends EventKey<TEvents>>(event: K, ...args: TEvents[K]): Promise<EmitResult> {
+    const { propagationStopped, defaultPrevented, droppedListeners } = await this.listenerManager.executeListeners(
+      this,
+      event,
+      args
+    );
+    return { propagationStopped, defaultPrevented, droppedListeners };
+  }
+
+  /**
+   * Emits the specified event synchronously, calling all associated listeners one after another in priority order,
+   * e.g. in constructors or hot code paths which need the listeners to have run before continuing. Filters, predicates,
+   * sticky payloads and the event history apply, middlewares, concurrency limits and retries do not.
+   * @param event - The event name, possibly with a namespace.
+   * @param args - Additional arguments to be passed to the listeners.
+   * @returns Whether a listener stopped the propagation or prevented the default.
+   * @throws The first listener error with the `fail-fast` error policy, or an `AggregateError` with the `aggregate`
+   *         one. A listener returning a promise, or a throttled or debounced listener, fails with an `AsyncListenerError`.
+   */
+  emitSync<K extends EventKey<TEvents>>(event: K, ...args: TEvents[K]): EmitResult {
+    const { propagationStopped, defaultPrevented, droppedListeners } = this.listenerManager.executeListenersSync(
+      this,
+      event,
+      args
+    );
+    return { propagationStopped, defaultPrevented, droppedListeners };
+  }
+
+  /**
+   * Emits the specified event with options, calling all associated listeners.
+   * @param event - The event name, possibly with a namespace.
+   * @param options - An object containing properties like `sticky`.
+   * @param options.sticky - Keeps the payload for listeners added later, `true` keeps the last payload of the event
+   *                         and a number the last N payloads.
+   * @param options.execution - Overrides the `execution` global option for this emission.
+   * @param options.source - The origin of the emission, e.g. the name of the emitting service, passed in the event context.
+   * @param args - Additional arguments to be passed to the listeners.
+   * @returns A promise that resolves when all listeners have been executed with whether a listener stopped the
+   *          propagation or prevented the default and the ids of the listeners whose queued call was dropped, or
+   *          rejects according to the error policy.
+   */
+  async emitWithOptions<K extends EventKey<TEvents>>(
+    event: K,
+    option: EmitOption,
+    ...args: TEvents[K]
+  ): Promise<EmitResult> {
+    const { propagationStopped, defaultPrevented, droppedListeners } = await this.listenerManager.executeListeners(
+      this,
+      event,
+      args,
+      option
+    );
+    return { propagationStopped, defaultPrevented, droppedListeners };
+  }
+
+  /**
+   * Emits the specified event and collects the values returned by the listeners, e.g. to ask every plugin for its
+   * menu items. Listener errors are reported as usual but returned in the results instead of rejecting.
+   * Throttled and debounced listeners have no result when their call is dropped or replaced by a later call, and
+   * neither have calls dropped from the queue of a listener or skipped by a middleware.
+   * @typeParam R - The type of the values returned by the listeners.
+   * @param event - The event name, possibly with a namespace.
+   * @param args - Additional arguments to be passed to the listeners.
+   * @returns A promise that resolves with the `listenerId` and the `value` or `error` of every executed listener,
+   *          in priority order.
+   */
+  async emitWithResults<K extends EventKey<TEvents>, R = unknown>(
+    event: K,
+    ...args: TEvents[K]
+  ): Promise<Array<ListenerResult<R>>> {
+    const { results } = await this.listenerManager.executeListeners(this, event, args, {}, { collectErrors: true });
+    return results as Array<ListenerResult<R>>;
+  }
+
+  /**
+   * Emits the specified event to exactly one listener and resolves with its return value, like a request.
+   * @typeParam R - The type of the value returned by the listener.
+   * @param event - The event name, possibly with a namespace.
+   * @param args - Additional arguments to be passed to the listener.
+   * @returns A promise that resolves with the value returned by the listener, or rejects with its error.
+   *          It rejects with an `InvocationError` if no listener or several listeners match the event, or the
+   *          listener has no result because it is throttled, debounced, dropped or skipped.
    */
-  async emit(event: string, ...args: unknown[]): Promise<void> {
-    await this.listenerManager.executeListeners(this, event, args);
+  async invoke<K extends EventKey<TEvents>, R = unknown>(event: K, ...args: TEvents[K]): Promise<R> {
+    const {
+      results: [result]
+    } = await this.listenerManager.executeListeners(this, event, args, {}, { collectErrors: true, exclusive: true });
+
+    if (!result) {
+      throw new InvocationError(`The listener of event ${event} did not return a result`);
+    }
+
+    if (result.error) {
+      throw result.error;
+    }
+
+    return result.value as R;
+  }
+
+  /**
+   * Removes the sticky payloads of the events matching the given event or wildcard pattern, or of all events.
+   * @param event - The event or wildcard pattern, e.g. 'config.*', all sticky payloads are removed if omitted.
+   */
+  clearSticky<P extends string>(event?: P & EventPattern<TEvents, P>): void {
+    this.listenerManager.clearSticky(this, event);
+  }
+
+  /**
+   * Waits for the first emission of the specified event, including wildcard and namespace matches.
+   * The temporary listener is removed as soon as the promise settles, it is not listed as a subscription and is not
+   * counted by `invoke`.
+   * @param event - The event name or pattern, possibly with a namespace.
+   * @param options - An optional object containing properties like `timeout`, `predicate`, and `signal`.
+   * @param options.timeout - Time (in milliseconds) after which the promise rejects with a `TimeoutError`.
+   * @param options.predicate - A function receiving the emitted event, only matching emissions resolve the promise.
+   * @param options.signal - An `AbortSignal` which rejects the promise with an `AbortError` once aborted.
+   * @returns A promise that resolves with the arguments of the first matching emission.
+   */
+  waitFor<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    option: WaitForOption<EventPayload<TEvents, P>> = {}
+  ): Promise<EventPayload<TEvents, P>> {
+    const { timeout, predicate, signal } = option;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError(`Waiting for event ${event} was aborted`));
+        return;
+      }
+
+      const subscription = new AbortController();
+      let timer: NodeJS.Timeout | undefined;
+
+      const settle = () => {
+        subscription.abort();
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        settle();
+        reject(new AbortError(`Waiting for event ${event} was aborted`));
+      };
+
+      const listener = (eventName: string, ...args: EventPayload<TEvents, P>) => {
+        try {
+          if (predicate && !predicate(eventName, ...args)) {
+            return;
+          }
+        } catch (error) {
+          settle();
+          reject(error);
+          return;
+        }
+
+        settle();
+        resolve(args);
+      };
+
+      this.listenerManager.addListener(this, event, listener as Listener, { signal: subscription.signal }, true);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          settle();
+          reject(new TimeoutError(`Timed out after ${timeout}ms waiting for event ${event}`));
+        }, timeout);
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Re-emits recorded history in the order it was recorded, e.g. to reproduce an incident or rebuild state after a restart.
+   * Entries recorded by the same emission are re-emitted once, payloads rejected by their schema are not re-emitted.
+   * @param history - The history entries to replay, e.g. from `getAllEventHistory` or a history store.
+   * @param options - An optional object containing properties like `speed`, `filter`, `targetListeners`, and `dryRun`.
+   * @param options.speed - Playback speed relative to the recorded timing, 1 is real time, 2 twice as fast and
+   *                        `Infinity` (default) as fast as possible.
+   * @param options.filter - A function selecting the entries to replay.
+   * @param options.targetListeners - The ids of the listeners to deliver to, other matching listeners are skipped.
+   * @param options.dryRun - Only reports which listeners would be executed, without emitting.
+   * @param options.signal - An `AbortSignal` which stops the replay, rejecting with an `AbortError`.
+   * @returns A promise that resolves with the replayed emissions and the ids of the listeners they matched.
+   */
+  async replay(history: Array<EventHistory<unknown[]>>, option: ReplayOption = {}): Promise<ReplayedEvent[]> {
+    const { speed = Infinity, filter, targetListeners, dryRun = false, signal } = option;
+    if (!(speed > 0)) {
+      throw new RangeError(`Replay speed must be greater than 0, received ${speed}`);
+    }
+
+    const replayed: ReplayedEvent[] = [];
+    let previousTimestamp: number | undefined;
+
+    for (const { event, args, timestamp } of groupHistoryByEmission(filter ? history.filter(filter) : history)) {
+      if (previousTimestamp !== undefined && Number.isFinite(speed)) {
+        await delay((timestamp - previousTimestamp) / speed, signal);
+      }
+      if (signal?.aborted) {
+        throw new AbortError('Replay was aborted');
+      }
+      previousTimestamp = timestamp;
+
+      const listenerIds = this.listenerManager
+        .resolveListeners(this, event, args)
+        .filter(id => !targetListeners || targetListeners.includes(id));
+      if (!dryRun) {
+        await this.listenerManager.executeListeners(this, event, args, {}, { targetListeners });
+      }
+
+      replayed.push({ event, timestamp, args, listenerIds });
+    }
+
+    return replayed;
+  }
+
+  /**
+   * Subscribes to the specified event as an async iterator, e.g. `for await (const { event, args } of emitter.events('orders.*'))`.
+   * Breaking out of the loop or calling `return()` removes the underlying listener.
+   * @param event - The event name or pattern, possibly with a namespace.
+   * @param options - An optional object containing properties like `bufferSize`, `overflow`, and `signal`.
+   * @param options.bufferSize - Maximum number of emissions buffered until consumed (default is unlimited).
+   * @param options.overflow - Policy when the buffer is full: 'drop-oldest' (default), 'drop-newest' or 'error'.
+   * @param options.signal - An `AbortSignal` which ends the iteration once aborted.
+   * @returns An async iterator over the matching emissions.
+   */
+  events<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    option: EventIteratorOption = {}
+  ): AsyncIterableIterator<EmittedEvent<EventPayload<TEvents, P>>> {
+    const iterator = new EventIterator<EventPayload<TEvents, P>>(option);
+
+    const push: ContextListener<EventPayload<TEvents, P>> = (context, ...args) => iterator.push(context.event, ...args);
+
+    this.listenerManager.addListener(this, event, push as ContextListener, {
+      signal: iterator.subscriptionSignal,
+      context: true
+    });
+
+    return iterator;
   }
 
   /**
@@ -112,11 +699,22 @@ export class EventEmitter {
    * Inspects a specific event subscription, showing details of listeners.
    *
    * @param event - The event name, possibly with a namespace (e.g., 'namespace.eventName').
-   * @returns {Array<Object>} - An array of objects, each containing listener details (id, priority, concurrency, eventInfo, listener).
+   * @returns {Array<Object>} - An array of objects, each containing listener details (id, priority, concurrency, eventInfo, listener),
+   * the number of queued calls (`queueDepth`) and the time in milliseconds the oldest one has been waiting (`queueWaitTime`).
    */
-  inspectSubscription(
-    event: string
-  ): Array<{ id: string; eventInfo: EventInfo; listener: Listener; priority: number; concurrency: number }> {
+  inspectSubscription<P extends string>(
+    event: P & EventPattern<TEvents, P>
+  ): Array<{
+    id: string;
+    eventInfo: EventInfo;
+    listener: Listener<EventPayload<TEvents, P>>;
+    priority: number;
+    concurrency: number;
+    predicate?: ListenerPredicate<EventPayload<TEvents, P>> | PayloadMatcher;
+    retry?: RetryOption;
+    queueDepth: number;
+    queueWaitTime: number;
+  }> {
     return this.listenerManager.inspectSubscription(event);
   }
 
@@ -126,7 +724,7 @@ export class EventEmitter {
    * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
    * @param listenerId - The unique identifier of the listener to be removed.
    */
-  removeSubscription(event: string, listenerId: string): void {
+  removeSubscription<P extends string>(event: P & EventPattern<TEvents, P>, listenerId: string): void {
     this.listenerManager.removeSubscription(event, listenerId);
   }
 }
@@ -0,0 +1,140 @@
+import { BufferOverflowError } from './Errors';
+import { EmittedEvent, EventIteratorOption } from './Interfaces';
+import { OverflowPolicy } from './Types';
+
+/**
+ * Async iterator over emitted events, buffering emissions until they are consumed.
+ */
+export class EventIterator<TArgs extends unknown[] = unknown[]> implements AsyncIterableIterator<EmittedEvent<TArgs>> {
+  private readonly subscription = new AbortController();
+  private readonly bufferSize: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly signal?: AbortSignal;
+  private buffer: Array<EmittedEvent<TArgs>> = [];
+  private pullers: Array<(result: IteratorResult<EmittedEvent<TArgs>>) => void> = [];
+  private failure: Error | null = null;
+  private done = false;
+
+  /**
+   * Creates an instance of EventIterator.
+   * @param option - Options for the iterator.
+   * @param option.bufferSize - Maximum number of buffered emissions (default is unlimited).
+   * @param option.overflow - Policy applied when the buffer is full (default is 'drop-oldest').
+   * @param option.signal - An `AbortSignal` which ends the iteration once aborted.
+   */
+  constructor({ bufferSize, overflow, signal }: EventIteratorOption = {}) {
+    this.bufferSize = bufferSize ?? Infinity;
+    this.overflow = overflow ?? 'drop-oldest';
+    this.signal = signal;
+
+    this.signal?.addEventListener('abort', this.close, { once: true });
+  }
+
+  /**
+   * Signal which is aborted once the iteration ends, used to unregister the underlying listener.
+   */
+  get subscriptionSignal(): AbortSignal {
+    return this.subscription.signal;
+  }
+
+  /**
+   * Delivers an emission to a waiting consumer or buffers it according to the overflow policy.
+   * @param event - The full topic of the emitted event.
+   * @param args - The arguments of the emission.
+   */
+  push = (event: string, ...args: TArgs): void => {
+    if (this.done) {
+      return;
+    }
+
+    const emitted = { event, args };
+    const puller = this.pullers.shift();
+    if (puller) {
+      puller({ value: emitted, done: false });
+      return;
+    }
+
+    if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(emitted);
+      return;
+    }
+
+    switch (this.overflow) {
+      case 'drop-oldest':
+        this.buffer.shift();
+        if (this.bufferSize > 0) {
+          this.buffer.push(emitted);
+        }
+        break;
+      case 'drop-newest':
+        break;
+      case 'error':
+        this.failure = new BufferOverflowError(`Event iterator buffer exceeded ${this.bufferSize} entries`);
+        this.buffer = [];
+        this.close();
+        break;
+    }
+  };
+
+  /**
+   * Resolves with the next buffered emission, waiting for one if the buffer is empty.
+   * @returns A promise resolving with the next iterator result.
+   */
+  next(): Promise<IteratorResult<EmittedEvent<TArgs>>> {
+    const emitted = this.buffer.shift();
+    if (emitted) {
+      return Promise.resolve({ value: emitted, done: false });
+    }
+
+    if (this.failure) {
+      const failure = this.failure;
+      this.failure = null;
+      return Promise.reject(failure);
+    }
+
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise(resolve => this.pullers.push(resolve));
+  }
+
+  /**
+   * Ends the iteration and unregisters the underlying listener, discarding buffered emissions.
+   * @returns A promise resolving with the final iterator result.
+   */
+  return(): Promise<IteratorResult<EmittedEvent<TArgs>>> {
+    this.buffer = [];
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  /**
+   * Ends the iteration with an error and unregisters the underlying listener.
+   * @param error - The error to end the iteration with.
+   * @returns A promise rejecting with the given error.
+   */
+  throw(error?: unknown): Promise<IteratorResult<EmittedEvent<TArgs>>> {
+    this.buffer = [];
+    this.close();
+    return Promise.reject(error);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<EmittedEvent<TArgs>> {
+    return this;
+  }
+
+  /**
+   * Stops receiving emissions and resolves all waiting consumers as done.
+   */
+  private close = (): void => {
+    if (this.done) {
+      return;
+    }
+
+    this.done = true;
+    this.subscription.abort();
+    this.signal?.removeEventListener('abort', this.close);
+    this.pullers.splice(0).forEach(resolve => resolve({ value: undefined, done: true }));
+  };
+}
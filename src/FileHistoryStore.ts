@@ -0,0 +1,161 @@
+import { appendFileSync, closeSync, existsSync, fstatSync, openSync, readFileSync, readSync, writeFileSync } from 'fs';
+import { BufferedHistoryStore } from './BufferedHistoryStore';
+import { defaultHistorySize } from './Constants';
+import { EventHistory, FileHistoryStoreOption } from './Interfaces';
+import { RingBuffer } from './RingBuffer';
+import { toSerializable } from './Utils';
+
+/**
+ * Append-only history store writing one JSON document per line (JSON Lines) to a file, so that the history
+ * survives process restarts. Buffered entries are written when the process exits. The file is read once, the newest
+ * entries are then kept in memory, and it is compacted to these entries once it holds twice as many lines.
+ */
+export class FileHistoryStore extends BufferedHistoryStore {
+  private readonly path: string;
+  private readonly entries: RingBuffer<EventHistory>;
+  private loaded = false;
+  private lineCount = 0;
+  private checkedLastLine = false;
+
+  /**
+   * Creates an instance of FileHistoryStore.
+   * @param option - Options for the store.
+   * @param option.path - The path of the JSON Lines file, created on the first write.
+   * @param option.maxEntries - Maximum number of entries kept, the file is compacted to the newest entries once it holds
+   *                            twice as many lines (default is 1000).
+   * @param option.flushInterval - Time in milliseconds appended entries are buffered before they are written (default is 100).
+   * @param option.serializer - A function converting the arguments of appended entries into a JSON safe form
+   *                            (default converts errors, dates, maps, sets, bigints and circular references).
+   */
+  constructor({ path, maxEntries, flushInterval, serializer, ...option }: FileHistoryStoreOption) {
+    super({
+      ...option,
+      flushInterval: flushInterval ?? 100,
+      serializer: serializer ?? (args => toSerializable(args) as unknown[])
+    });
+    this.path = path;
+    this.entries = new RingBuffer(maxEntries ?? defaultHistorySize);
+
+    process.once('exit', this.flushOnExit);
+  }
+
+  /**
+   * Writes the buffered entries and stops flushing on process exit.
+   */
+  close(): void {
+    super.close();
+    process.removeListener('exit', this.flushOnExit);
+  }
+
+  protected writeEntries(entries: EventHistory[]): void {
+    this.load();
+    const separator = this.checkedLastLine || this.endsWithNewline() ? '' : '\n';
+
+    appendFileSync(this.path, `${separator}${entries.map(this.toLine).join('\n')}\n`);
+    entries.forEach(entry => this.entries.push(entry));
+    this.lineCount += entries.length;
+    this.checkedLastLine = true;
+
+    if (this.lineCount >= this.entries.maxSize * 2) {
+      this.compact();
+    }
+  }
+
+  protected readEntries(): EventHistory[] {
+    this.load();
+    return this.entries.toArray();
+  }
+
+  protected clearEntries(): void {
+    writeFileSync(this.path, '');
+    this.entries.clear();
+    this.loaded = true;
+    this.lineCount = 0;
+    this.checkedLastLine = true;
+  }
+
+  /**
+   * Reads the newest entries of the file once, skipping lines which can not be parsed (e.g. a line cut off by a crash).
+   */
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+
+    this.loaded = true;
+    if (!existsSync(this.path)) {
+      return;
+    }
+
+    const lines = readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter(line => line);
+    this.lineCount = lines.length;
+    lines
+      .flatMap(line => {
+        try {
+          return [this.parseEntry(line)];
+        } catch {
+          return [];
+        }
+      })
+      .forEach(entry => this.entries.push(entry));
+  }
+
+  /**
+   * Rewrites the file with the entries kept in memory, dropping the older lines.
+   */
+  private compact(): void {
+    const entries = this.entries.toArray();
+
+    writeFileSync(this.path, entries.length ? `${entries.map(this.toLine).join('\n')}\n` : '');
+    this.lineCount = entries.length;
+  }
+
+  /**
+   * Checks whether the file is missing, empty or ends with a complete line, so that new lines are not appended
+   * to a line cut off by a crash.
+   * @returns `true` if new lines can be appended directly; otherwise, `false`.
+   */
+  private endsWithNewline(): boolean {
+    if (!existsSync(this.path)) {
+      return true;
+    }
+
+    const descriptor = openSync(this.path, 'r');
+    try {
+      const { size } = fstatSync(descriptor);
+      const lastByte = Buffer.alloc(1);
+
+      return size === 0 || (readSync(descriptor, lastByte, 0, 1, size - 1) === 1 && lastByte[0] === 0x0a);
+    } finally {
+      closeSync(descriptor);
+    }
+  }
+
+  /**
+   * Converts an entry into a line of the file, with the error of failed executions in a JSON safe form.
+   * @param entry - The entry, whose arguments are already serialized.
+   * @returns The JSON document of the entry.
+   */
+  private toLine = (entry: EventHistory): string =>
+    JSON.stringify({ ...entry, ...(entry.error && { error: toSerializable(entry.error) }) });
+
+  /**
+   * Parses a line of the file, restoring the error of failed executions.
+   * @param line - The JSON document of the entry.
+   * @returns The entry.
+   */
+  private parseEntry(line: string): EventHistory {
+    const entry = JSON.parse(line) as EventHistory;
+    if (entry.error) {
+      entry.error = Object.assign(new Error(entry.error.message), entry.error);
+    }
+
+    return entry;
+  }
+
+  private flushOnExit = (): void => {
+    this.flush();
+  };
+}
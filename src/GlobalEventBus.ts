@@ -1,21 +1,63 @@
+import { InvocationError, QueueFullError, ValidationError } from './Errors';
 import { EventEmitter } from './EventEmitter';
-import { EventInfo, GlobalOption, Option } from './Interfaces';
+import {
+  AsyncAPIOption,
+  CatalogMarkdownOption,
+  CausalNode,
+  DeadLetter,
+  DeclaredEvent,
+  EmitOption,
+  EmitResult,
+  EmittedEvent,
+  EventDefinition,
+  EventHistory,
+  EventInfo,
+  EventIteratorOption,
+  GlobalOption,
+  HistoryQuery,
+  JsonSchema,
+  ListenerResult,
+  Option,
+  ReplayedEvent,
+  ReplayOption,
+  RetryOption,
+  SchemaOption,
+  Subscription,
+  WaitForOption
+} from './Interfaces';
 import { ListenerManager } from './ListenerManager';
-import { AsyncListener, Listener } from './Types';
+import {
+  AsyncListener,
+  ContextListener,
+  DefaultEventMap,
+  EmitMiddleware,
+  EventArgs,
+  EventFilter,
+  EventKey,
+  EventMap,
+  EventPattern,
+  EventPayload,
+  Listener,
+  ListenerMiddleware,
+  ListenerPredicate,
+  PayloadMatcher,
+  PayloadValidator
+} from './Types';
 
-class GlobalEventBus {
-  private static instance: GlobalEventBus;
-  private emitter: EventEmitter;
+export class GlobalEventBus<TEvents extends EventMap = DefaultEventMap> {
+  private static instance: GlobalEventBus<any>;
+  private emitter: EventEmitter<TEvents>;
 
   private constructor() {
-    this.emitter = new EventEmitter();
+    this.emitter = new EventEmitter<TEvents>();
   }
 
   /**
    * Gets the singleton instance of the GlobalEventBus.
+   * The event map only narrows the typings, every call returns the same underlying instance.
    * @returns The singleton instance of the GlobalEventBus.
    */
-  static getInstance(): GlobalEventBus {
+  static getInstance<TEvents extends EventMap = DefaultEventMap>(): GlobalEventBus<TEvents> {
     if (!GlobalEventBus.instance) {
       GlobalEventBus.instance = new GlobalEventBus();
     }
@@ -56,9 +98,7 @@ class GlobalEventBus {
    * @returns {Array<{ event: string, listenerId: string, timestamp: number, args: unknown[] }>}
    * - An array of objects that match the specified event name, each containing the event name, listener ID, timestamp, and arguments.
    */
-  public getSpecificEventHistory(
-    event: string
-  ): Array<{ event: string; listenerId: string; timestamp: number; args: unknown[] }> {
+  public getSpecificEventHistory<K extends EventKey<TEvents>>(event: K): Array<EventHistory<TEvents[K]>> {
     return this.emitter.getSpecificEventHistory(event);
   }
 
@@ -68,27 +108,257 @@ class GlobalEventBus {
    * @returns {Array<{ event: string, listenerId: string, timestamp: number, args: unknown[] }>}
    * - An array of objects, each containing the event name, listener ID, timestamp, and the arguments passed to the listener.
    */
-  public getAllEventHistory(): Array<{ event: string; listenerId: string; timestamp: number; args: unknown[] }> {
+  public getAllEventHistory(): Array<EventHistory<EventArgs<TEvents>>> {
     return this.emitter.getAllEventHistory();
   }
 
+  /**
+   * Queries the recorded event histories of the GlobalEventBus, oldest first.
+   * @param query - An optional object containing properties like `pattern`, `listenerId`, `from`, `to`, `outcome`, `offset` and `limit`.
+   * @returns The matching entries.
+   */
+  public queryHistory(query: HistoryQuery = {}): Array<EventHistory<EventArgs<TEvents>>> {
+    return this.emitter.queryHistory(query);
+  }
+
+  /**
+   * Queries the recorded event histories of the GlobalEventBus, also from history stores reading asynchronously.
+   * @param query - An optional object containing properties like `pattern`, `listenerId`, `from`, `to`, `outcome`, `offset` and `limit`.
+   * @returns A promise that resolves with the matching entries, oldest first.
+   */
+  public fetchHistory(query: HistoryQuery = {}): Promise<Array<EventHistory<EventArgs<TEvents>>>> {
+    return this.emitter.fetchHistory(query);
+  }
+
+  /**
+   * Retrieves the causal tree of an emission of the GlobalEventBus.
+   * @param emitId - The unique identifier of the emission at the root of the tree.
+   * @returns The emission with its history entries and the emissions it caused, or `undefined` if it is not recorded.
+   */
+  public getCausalTree(emitId: string): CausalNode | undefined {
+    return this.emitter.getCausalTree(emitId);
+  }
+
+  /**
+   * Removes every recorded event history of the GlobalEventBus.
+   * @returns A promise that resolves once the history store has been cleared.
+   */
+  public async clearHistory(): Promise<void> {
+    await this.emitter.clearHistory();
+  }
+
+  /**
+   * Writes the entries buffered by the history store of the GlobalEventBus.
+   * @returns A promise that resolves once the buffered entries have been written.
+   */
+  public async flushHistory(): Promise<void> {
+    await this.emitter.flushHistory();
+  }
+
+  /**
+   * Lists the listener calls of the GlobalEventBus which still failed after their last retry attempt, oldest first.
+   * @returns The dead letters with their event, arguments, listener id, error and number of attempts.
+   */
+  public getDeadLetters(): Array<DeadLetter<EventArgs<TEvents>>> {
+    return this.emitter.getDeadLetters();
+  }
+
+  /**
+   * Calls the listeners of dead letters of the GlobalEventBus again with their original event and arguments.
+   * @param ids - The ids of the dead letters to redrive, all dead letters are redriven if omitted.
+   * @returns A promise that resolves with the value or error of every redriven listener call.
+   */
+  public async redriveDeadLetters(ids?: string[]): Promise<ListenerResult[]> {
+    return this.emitter.redriveDeadLetters(ids);
+  }
+
+  /**
+   * Removes dead letters of the GlobalEventBus from the queue.
+   * @param ids - The ids of the dead letters to remove, all dead letters are removed if omitted.
+   */
+  public purgeDeadLetters(ids?: string[]): void {
+    this.emitter.purgeDeadLetters(ids);
+  }
+
   /**
    * Adds a listener for the specified event through the GlobalEventBus, with optional filtering, throttling, debouncing, and priority.
    * @param event - The event name to listen for.
    * @param listener - The listener function to be called when the event is emitted.
    * @param options - An optional object containing properties like `filter`, `throttle`, `debounce`, and `priority`.
-   * @param options.filter - A filter function to determine whether to emit the event.
-   * @param options.throttle - The time delay (in milliseconds) between allowed invocations of the listener.
-   * @param options.debounce - The time delay (in milliseconds) before the listener is called after the last invocation.
+   * @param options.filter - A filter function to determine whether to call this listener.
+   * @param options.predicate - A function receiving the event context and arguments, or a declarative matcher for the first argument, to determine whether to call this listener.
+   * @param options.throttle - The time delay (in milliseconds) between allowed invocations of the listener, or an object
+   *                           with the `wait` time and the `leading` and `trailing` flags.
+   * @param options.debounce - The time delay (in milliseconds) before the listener is called after the last invocation,
+   *                           or an object with the `wait` time, the `maxWait` time and the `leading` flag.
    * @param options.priority - The priority of the listener, higher values execute first (default is 0).
    * @param options.separator - Separator used for parsing the event (if applicable, default is '.').
+   * @param options.concurrency - Maximum number of listeners executed in parallel (default is unlimited).
+   * @param options.maxQueueSize - Maximum number of calls queued once the concurrency limit is reached (default is unlimited).
+   * @param options.queueOverflow - Policy applied when the queue is full: `drop-oldest` (default), `drop-newest` or `reject`.
+   * @param options.maxCalls - Number of calls after which the listener is removed automatically.
+   * @param options.ttl - Time (in milliseconds) after which the listener is removed automatically.
+   * @param options.signal - An `AbortSignal` which removes the listener once aborted.
+   * @param options.retry - The number of `attempts`, the `backoff` strategy, `delay` and `jitter` for retrying failed calls.
+   * @param options.context - Passes the event context instead of the event name as the first argument of the listener.
+   * @returns The subscription with the listener `id`, `flush` and `cancel`.
+   */
+  on<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: ContextListener<EventPayload<TEvents, P>>,
+    option: Option<EventPayload<TEvents, P>> & { context: true }
+  ): Subscription;
+  on<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>>,
+    option?: Option<EventPayload<TEvents, P>>
+  ): Subscription;
+  on<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>> | ContextListener,
+    option: Option<EventPayload<TEvents, P>> = {}
+  ): Subscription {
+    // The overloads of the bus already pair the listener with its options, the emitter receives them unchanged.
+    return this.emitter.on<P>(
+      event,
+      listener as ContextListener,
+      option as Option<EventPayload<TEvents, P>> & { context: true }
+    );
+  }
+
+  /**
+   * Adds a listener through the GlobalEventBus which is removed automatically after its first call.
+   * @param event - The event name to listen for.
+   * @param listener - The listener function to be called when the event is emitted.
+   * @param options - The same options as for `on`, `maxCalls` is always 1.
+   * @returns The subscription of the listener.
+   */
+  once<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: ContextListener<EventPayload<TEvents, P>>,
+    option: Option<EventPayload<TEvents, P>> & { context: true }
+  ): Subscription;
+  once<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>>,
+    option?: Option<EventPayload<TEvents, P>>
+  ): Subscription;
+  once<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>> | ContextListener,
+    option: Option<EventPayload<TEvents, P>> = {}
+  ): Subscription {
+    return this.emitter.once<P>(
+      event,
+      listener as ContextListener,
+      option as Option<EventPayload<TEvents, P>> & { context: true }
+    );
+  }
+
+  /**
+   * Adds a filter through the GlobalEventBus which gates every emitted event.
+   * @param filter - A filter function receiving the event name and namespace, parsed with the global separator.
    */
-  on(
-    event: string,
-    listener: Listener | AsyncListener,
-    { filter, throttle, debounce, priority, separator }: Option = {}
+  addGlobalFilter(filter: EventFilter): void {
+    this.emitter.addGlobalFilter(filter);
+  }
+
+  /**
+   * Removes a previously added global filter from the GlobalEventBus.
+   * @param filter - The filter function to be removed.
+   */
+  removeGlobalFilter(filter: EventFilter): void {
+    this.emitter.removeGlobalFilter(filter);
+  }
+
+  /**
+   * Registers the schema which validates the payload of the events matching the given event or pattern through the
+   * GlobalEventBus.
+   * @param pattern - The event or wildcard pattern (e.g., 'orders.*').
+   * @param schema - A JSON Schema subset validating the first argument, or a validator function receiving all arguments.
+   * @param option - An optional object containing the `mode` of the validation: `reject`, `warn` or `strip`.
+   */
+  registerSchema<P extends string>(
+    pattern: P & EventPattern<TEvents, P>,
+    schema: JsonSchema | PayloadValidator<EventPayload<TEvents, P>>,
+    option: SchemaOption = {}
   ): void {
-    this.emitter.on(event, listener, { filter, throttle, debounce, priority, separator });
+    this.emitter.registerSchema<P>(pattern, schema, option);
+  }
+
+  /**
+   * Removes the schema registered for the given pattern from the GlobalEventBus.
+   * @param pattern - The event or wildcard pattern the schema was registered for.
+   */
+  unregisterSchema(pattern: string): void {
+    this.emitter.unregisterSchema(pattern);
+  }
+
+  /**
+   * Declares an event or pattern in the event catalog of the GlobalEventBus, replacing its previous declaration.
+   * @param topic - The event or wildcard pattern (e.g., 'orders.created').
+   * @param definition - An optional object containing properties like `description`, `schema`, `owner` and `deprecated`.
+   */
+  declareEvent<P extends string>(topic: P & EventPattern<TEvents, P>, definition: EventDefinition = {}): void {
+    this.emitter.declareEvent<P>(topic, definition);
+  }
+
+  /**
+   * Removes an event or pattern from the event catalog of the GlobalEventBus.
+   * @param topic - The declared event or wildcard pattern.
+   */
+  undeclareEvent(topic: string): void {
+    this.emitter.undeclareEvent(topic);
+  }
+
+  /**
+   * Lists the events declared in the event catalog of the GlobalEventBus.
+   * @returns The declared events with their topic, description, payload schema, owner and deprecation.
+   */
+  getEventCatalog(): DeclaredEvent[] {
+    return this.emitter.getEventCatalog();
+  }
+
+  /**
+   * Generates an AsyncAPI document from the event catalog and the current subscriptions of the GlobalEventBus.
+   * @param option - An optional object containing properties like `version`, `title`, `applicationVersion` and `description`.
+   * @returns The AsyncAPI document, ready to be serialized to JSON or YAML.
+   */
+  generateAsyncAPI(option: AsyncAPIOption = {}): Record<string, unknown> {
+    return this.emitter.generateAsyncAPI(option);
+  }
+
+  /**
+   * Generates a Markdown catalog of the declared events of the GlobalEventBus with their current number of listeners.
+   * @param option - An optional object containing the `title` of the catalog.
+   * @returns The Markdown catalog.
+   */
+  generateCatalogMarkdown(option: CatalogMarkdownOption = {}): string {
+    return this.emitter.generateCatalogMarkdown(option);
+  }
+
+  /**
+   * Adds a middleware which runs around every emit through the GlobalEventBus.
+   * @param middleware - A function receiving the emit context and the `next` function running the rest of the chain.
+   */
+  use(middleware: EmitMiddleware): void {
+    this.emitter.use(middleware);
+  }
+
+  /**
+   * Adds a middleware which runs around every listener execution of the GlobalEventBus.
+   * @param middleware - A function receiving the listener context and the `next` function running the rest of the chain.
+   */
+  useListener(middleware: ListenerMiddleware): void {
+    this.emitter.useListener(middleware);
+  }
+
+  /**
+   * Removes a previously added emit or listener middleware from the GlobalEventBus.
+   * @param middleware - The middleware function to be removed.
+   */
+  removeMiddleware(middleware: EmitMiddleware | ListenerMiddleware): void {
+    this.emitter.removeMiddleware(middleware);
   }
 
   /**
@@ -96,24 +366,156 @@ class GlobalEventBus {
    * @param event - The event name from which to remove the listener.
    * @param listener - The listener function to be removed.
    */
-  off(event: string, listener: Listener | AsyncListener): void {
-    this.emitter.off(event, listener);
+  off<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    listener: Listener<EventPayload<TEvents, P>> | AsyncListener<EventPayload<TEvents, P>>
+  ): void {
+    this.emitter.off<P>(event, listener);
   }
 
   /**
    * Emits the specified event through the GlobalEventBus, calling all associated listeners.
    * @param event - The event name to be emitted.
    * @param args - Additional arguments to be passed to the listeners.
-   * @returns A promise that resolves when all listeners have been executed.
+   * @returns A promise that resolves when all listeners have been executed with whether a listener stopped the
+   *          propagation or prevented the default, or rejects according to the error policy.
    */
-  async emit(event: string, ...args: unknown[]): Promise<void> {
+  async emit<K extends EventKey<TEvents>>(event: K, ...args: TEvents[K]): Promise<EmitResult> {
     try {
-      await this.emitter.emit(event, ...args);
+      return await this.emitter.emit(event, ...args);
     } catch (error) {
+      if (!this.isSwallowed(error)) {
+        throw error;
+      }
+
       this.handleEventBusError(event, error as Error);
+      return { propagationStopped: false, defaultPrevented: false, droppedListeners: [] };
     }
   }
 
+  /**
+   * Emits the specified event synchronously through the GlobalEventBus, calling all associated listeners in priority order.
+   * @param event - The event name to be emitted.
+   * @param args - Additional arguments to be passed to the listeners.
+   * @returns Whether a listener stopped the propagation or prevented the default.
+   * @throws The listener errors according to the error policy, a listener returning a promise fails with an `AsyncListenerError`.
+   */
+  emitSync<K extends EventKey<TEvents>>(event: K, ...args: TEvents[K]): EmitResult {
+    try {
+      return this.emitter.emitSync(event, ...args);
+    } catch (error) {
+      if (!this.isSwallowed(error)) {
+        throw error;
+      }
+
+      this.handleEventBusError(event, error as Error);
+      return { propagationStopped: false, defaultPrevented: false, droppedListeners: [] };
+    }
+  }
+
+  /**
+   * Emits the specified event with options through the GlobalEventBus, calling all associated listeners.
+   * @param event - The event name to be emitted.
+   * @param options - An object containing properties like `sticky`.
+   * @param args - Additional arguments to be passed to the listeners.
+   * @returns A promise that resolves when all listeners have been executed with whether a listener stopped the
+   *          propagation or prevented the default, or rejects according to the error policy.
+   */
+  async emitWithOptions<K extends EventKey<TEvents>>(
+    event: K,
+    option: EmitOption,
+    ...args: TEvents[K]
+  ): Promise<EmitResult> {
+    try {
+      return await this.emitter.emitWithOptions(event, option, ...args);
+    } catch (error) {
+      if (!this.isSwallowed(error)) {
+        throw error;
+      }
+
+      this.handleEventBusError(event, error as Error);
+      return { propagationStopped: false, defaultPrevented: false, droppedListeners: [] };
+    }
+  }
+
+  /**
+   * Emits the specified event through the GlobalEventBus and collects the values returned by the listeners.
+   * @param event - The event name to be emitted.
+   * @param args - Additional arguments to be passed to the listeners.
+   * @returns A promise that resolves with the `listenerId` and the `value` or `error` of every executed listener,
+   *          in priority order.
+   */
+  async emitWithResults<K extends EventKey<TEvents>, R = unknown>(
+    event: K,
+    ...args: TEvents[K]
+  ): Promise<Array<ListenerResult<R>>> {
+    try {
+      return await this.emitter.emitWithResults<K, R>(event, ...args);
+    } catch (error) {
+      if (!this.isSwallowed(error)) {
+        throw error;
+      }
+
+      this.handleEventBusError(event, error as Error);
+      return [];
+    }
+  }
+
+  /**
+   * Emits the specified event through the GlobalEventBus to exactly one listener and resolves with its return value.
+   * @param event - The event name to be emitted.
+   * @param args - Additional arguments to be passed to the listener.
+   * @returns A promise that resolves with the value returned by the listener, or rejects with its error or an
+   *          `InvocationError`.
+   */
+  async invoke<K extends EventKey<TEvents>, R = unknown>(event: K, ...args: TEvents[K]): Promise<R> {
+    return this.emitter.invoke<K, R>(event, ...args);
+  }
+
+  /**
+   * Removes the sticky payloads of the GlobalEventBus matching the given event or wildcard pattern, or all of them.
+   * @param event - The event or wildcard pattern, all sticky payloads are removed if omitted.
+   */
+  clearSticky<P extends string>(event?: P & EventPattern<TEvents, P>): void {
+    this.emitter.clearSticky<P>(event);
+  }
+
+  /**
+   * Waits through the GlobalEventBus for the first emission of the specified event.
+   * @param event - The event name or pattern to wait for.
+   * @param options - An optional object containing properties like `timeout`, `predicate`, and `signal`.
+   * @returns A promise that resolves with the arguments of the first matching emission.
+   */
+  waitFor<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    option: WaitForOption<EventPayload<TEvents, P>> = {}
+  ): Promise<EventPayload<TEvents, P>> {
+    return this.emitter.waitFor<P>(event, option);
+  }
+
+  /**
+   * Subscribes through the GlobalEventBus to the specified event as an async iterator.
+   * @param event - The event name or pattern to subscribe to.
+   * @param options - An optional object containing properties like `bufferSize`, `overflow`, and `signal`.
+   * @returns An async iterator over the matching emissions.
+   */
+  events<P extends string>(
+    event: P & EventPattern<TEvents, P>,
+    option: EventIteratorOption = {}
+  ): AsyncIterableIterator<EmittedEvent<EventPayload<TEvents, P>>> {
+    return this.emitter.events<P>(event, option);
+  }
+
+  /**
+   * Re-emits recorded history through the GlobalEventBus in the order it was recorded.
+   * @param history - The history entries to replay.
+   * @param options - An optional object containing properties like `speed`, `filter`, `targetListeners`, `dryRun`, and `signal`.
+   * @returns A promise that resolves with the replayed emissions and the ids of the listeners they matched.
+   */
+  replay(history: Array<EventHistory<unknown[]>>, option: ReplayOption = {}): Promise<ReplayedEvent[]> {
+    return this.emitter.replay(history, option);
+  }
+
   /**
    * Lists all event subscriptions, including event names and listener count.
    *
@@ -128,10 +530,20 @@ class GlobalEventBus {
    * @param event - The event name, possibly with a namespace (e.g., 'namespace.eventName').
    * @returns {Array<Object>} - An array of objects, each containing listener details (id, priority, concurrency, eventInfo, listener).
    */
-  inspectSubscription(
-    event: string
-  ): Array<{ id: string; eventInfo: EventInfo; listener: Listener; priority: number; concurrency: number }> {
-    return this.emitter.inspectSubscription(event);
+  inspectSubscription<P extends string>(
+    event: P & EventPattern<TEvents, P>
+  ): Array<{
+    id: string;
+    eventInfo: EventInfo;
+    listener: Listener<EventPayload<TEvents, P>>;
+    priority: number;
+    concurrency: number;
+    predicate?: ListenerPredicate<EventPayload<TEvents, P>> | PayloadMatcher;
+    retry?: RetryOption;
+    queueDepth: number;
+    queueWaitTime: number;
+  }> {
+    return this.emitter.inspectSubscription<P>(event);
   }
 
   /**
@@ -140,8 +552,21 @@ class GlobalEventBus {
    * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
    * @param listenerId - The unique identifier of the listener to be removed.
    */
-  removeSubscription(event: string, listenerId: string): void {
-    this.emitter.removeSubscription(event, listenerId);
+  removeSubscription<P extends string>(event: P & EventPattern<TEvents, P>, listenerId: string): void {
+    this.emitter.removeSubscription<P>(event, listenerId);
+  }
+
+  /**
+   * Checks whether an error of an emission is swallowed by the `swallow` error policy. The policy only covers listener
+   * errors, a `QueueFullError` from the backpressure, a `ValidationError` and an `InvocationError` are always thrown.
+   * @param error - The error thrown by the emission.
+   * @returns `true` if the error is only logged; otherwise, `false`.
+   */
+  private isSwallowed(error: unknown): boolean {
+    return (
+      (this.getGlobalOptions().errorPolicy ?? 'swallow') === 'swallow' &&
+      !(error instanceof QueueFullError || error instanceof ValidationError || error instanceof InvocationError)
+    );
   }
 
   /**
@@ -156,3 +581,10 @@ class GlobalEventBus {
 }
 
 export const globalEventBus = GlobalEventBus.getInstance();
+
+/**
+ * Gets the global event bus typed with the given event map.
+ * @returns The singleton instance of the GlobalEventBus.
+ */
+export const getGlobalEventBus = <TEvents extends EventMap = DefaultEventMap>(): GlobalEventBus<TEvents> =>
+  GlobalEventBus.getInstance<TEvents>();
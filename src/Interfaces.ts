@@ -1,7 +1,189 @@
-import { EventFilter, Listener } from './Types';
+import {
+  AsyncAPIVersion,
+  BackoffStrategy,
+  BackpressurePolicy,
+  CatalogAction,
+  CatalogWarningType,
+  ErrorPolicy,
+  EventFilter,
+  ExecutionMode,
+  HistoryOutcome,
+  HistorySerializer,
+  JsonSchemaType,
+  Listener,
+  ListenerPredicate,
+  OverflowPolicy,
+  PayloadMatcher,
+  QueueOverflowPolicy,
+  ValidationMode
+} from './Types';
 
 export interface GlobalOption {
   separator: string;
+  onError?: (errorEvent: ListenerErrorEvent) => void | Promise<void>;
+  errorPolicy?: ErrorPolicy;
+  history?: HistoryOption;
+  sticky?: Record<string, number>;
+  concurrency?: ConcurrencyOption;
+  execution?: ExecutionMode;
+  validation?: ValidationMode;
+  catalog?: CatalogOption;
+}
+
+export interface CatalogOption {
+  warnUndeclared?: boolean;
+  warnDeprecated?: boolean;
+  onWarning?: (warning: CatalogWarning) => void;
+}
+
+export interface CatalogWarning {
+  type: CatalogWarningType;
+  action: CatalogAction;
+  event: string;
+  message: string;
+}
+
+export interface EventDefinition {
+  description?: string;
+  schema?: JsonSchema;
+  owner?: string;
+  deprecated?: boolean | string;
+}
+
+export interface DeclaredEvent extends EventDefinition {
+  topic: string;
+}
+
+export interface AsyncAPIOption {
+  version?: AsyncAPIVersion;
+  title?: string;
+  applicationVersion?: string;
+  description?: string;
+}
+
+export interface CatalogMarkdownOption {
+  title?: string;
+}
+
+export interface ConcurrencyOption {
+  limit?: number;
+  namespaces?: Record<string, number>;
+  highWaterMark?: number;
+  backpressure?: BackpressurePolicy;
+}
+
+export interface EmitOption {
+  sticky?: boolean | number;
+  execution?: ExecutionMode;
+  source?: string;
+}
+
+export interface EmitResult {
+  propagationStopped: boolean;
+  defaultPrevented: boolean;
+  droppedListeners: string[];
+}
+
+/**
+ * Subset of JSON Schema validating the first emitted argument. Object properties are optional unless listed in
+ * `required`, and additional properties are allowed unless `additionalProperties` is `false`.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface SchemaOption {
+  mode?: ValidationMode;
+}
+
+export interface HistoryOption {
+  enabled?: boolean;
+  maxEntries?: number;
+  maxAge?: number;
+  namespaces?: Record<string, boolean>;
+  store?: HistoryStore;
+}
+
+export interface HistoryStore {
+  append(entry: EventHistory): void | Promise<void>;
+  read(): EventHistory[] | Promise<EventHistory[]>;
+  clear(): void | Promise<void>;
+  prune?(before: number): void | Promise<void>;
+  flush?(): void | Promise<void>;
+  close?(): void | Promise<void>;
+}
+
+export interface HistoryStoreOption {
+  flushInterval?: number;
+  serializer?: HistorySerializer;
+}
+
+export interface MemoryHistoryStoreOption extends HistoryStoreOption {
+  maxEntries?: number;
+}
+
+export interface FileHistoryStoreOption extends HistoryStoreOption {
+  path: string;
+  maxEntries?: number;
+}
+
+export interface HistoryQuery {
+  pattern?: string;
+  listenerId?: string;
+  correlationId?: string;
+  from?: number;
+  to?: number;
+  outcome?: HistoryOutcome;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ListenerErrorEvent<TArgs extends unknown[] = unknown[]> {
+  event: string;
+  listenerId: string;
+  error: Error;
+  args: TArgs;
+}
+
+export interface ListenerResult<TValue = unknown> {
+  listenerId: string;
+  value?: TValue;
+  error?: Error;
+}
+
+export interface DeliveryOption {
+  targetListeners?: string[];
+  collectErrors?: boolean;
+  exclusive?: boolean;
+}
+
+export interface RetryOption {
+  attempts: number;
+  backoff?: BackoffStrategy;
+  delay?: number;
+  jitter?: number;
+}
+
+export interface DeadLetter<TArgs extends unknown[] = unknown[]> {
+  id: string;
+  event: string;
+  listenerId: string;
+  args: TArgs;
+  error: Error;
+  attempts: number;
+  timestamp: number;
 }
 
 export interface EventInfo {
@@ -9,20 +191,126 @@ export interface EventInfo {
   event: string;
 }
 
-export interface EventHistory {
+export interface EventHistory<TArgs extends unknown[] = unknown[]> {
   event: string;
   listenerId: string;
+  emitId?: string;
+  parentEmitId?: string;
+  correlationId?: string;
   timestamp: number;
-  args: unknown[];
+  args: TArgs;
+  outcome: HistoryOutcome;
+  error?: Error;
+  reason?: string;
 }
 
-export interface Option {
+export interface CausalNode {
+  emitId: string;
+  event: string;
+  parentEmitId?: string;
+  timestamp: number;
+  entries: EventHistory[];
+  children: CausalNode[];
+}
+
+export interface Option<TArgs extends unknown[] = any[]> {
   filter?: EventFilter;
-  throttle?: number;
-  debounce?: number;
+  predicate?: ListenerPredicate<TArgs> | PayloadMatcher;
+  throttle?: number | ThrottleOption;
+  debounce?: number | DebounceOption;
   priority?: number;
   separator?: string;
   concurrency?: number;
+  maxQueueSize?: number;
+  queueOverflow?: QueueOverflowPolicy;
+  maxCalls?: number;
+  ttl?: number;
+  signal?: AbortSignal;
+  retry?: RetryOption;
+  context?: boolean;
+}
+
+export interface ThrottleOption {
+  wait: number;
+  leading?: boolean;
+  trailing?: boolean;
+}
+
+export interface DebounceOption {
+  wait: number;
+  maxWait?: number;
+  leading?: boolean;
+}
+
+export interface ListenerController {
+  flush(): Promise<void>;
+  cancel(): void;
+}
+
+export interface Subscription extends ListenerController {
+  id: string;
+}
+
+export interface EmitContext {
+  event: string;
+  args: unknown[];
+  metadata: Record<string, unknown>;
+}
+
+export interface ListenerContext extends EmitContext {
+  eventName: string;
+  listenerId: string;
+}
+
+export interface PredicateContext {
+  event: string;
+  eventName: string;
+  namespace: string;
+  pattern: string;
+}
+
+export interface EventContext extends PredicateContext {
+  emitId: string;
+  parentEmitId?: string;
+  correlationId: string;
+  timestamp: number;
+  source?: string;
+  readonly propagationStopped: boolean;
+  readonly defaultPrevented: boolean;
+  stopPropagation(): void;
+  preventDefault(): void;
+}
+
+export interface ReplayOption {
+  speed?: number;
+  filter?: (entry: EventHistory) => boolean;
+  targetListeners?: string[];
+  dryRun?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ReplayedEvent {
+  event: string;
+  timestamp: number;
+  args: unknown[];
+  listenerIds: string[];
+}
+
+export interface WaitForOption<TArgs extends unknown[] = unknown[]> {
+  timeout?: number;
+  predicate?: (eventName: string, ...args: TArgs) => boolean;
+  signal?: AbortSignal;
+}
+
+export interface EventIteratorOption {
+  bufferSize?: number;
+  overflow?: OverflowPolicy;
+  signal?: AbortSignal;
+}
+
+export interface EmittedEvent<TArgs extends unknown[] = unknown[]> {
+  event: string;
+  args: TArgs;
 }
 
 export interface EventListener {
@@ -30,12 +318,23 @@ export interface EventListener {
   priority: number;
   eventInfo: EventInfo;
   concurrency: number;
+  maxQueueSize?: number;
+  queueOverflow?: QueueOverflowPolicy;
   id: string;
+  sequence?: number;
+  filter?: EventFilter;
+  predicate?: ListenerPredicate | PayloadMatcher;
+  maxCalls?: number;
+  calls?: number;
+  retry?: RetryOption;
+  context?: boolean;
+  internal?: boolean;
+  rateLimit?: (invoke: () => unknown) => Promise<unknown>;
+  controller?: ListenerController;
+  dispose?: () => void;
 }
 
-export interface EventNamespace {
-  [event: string]: {
-    listeners: EventListener[];
-    throttled?: boolean;
-  };
+export interface TopicNode {
+  children: Map<string, TopicNode>;
+  listeners: EventListener[];
 }
@@ -1,34 +1,326 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { v4 as uuidv4 } from 'uuid';
-import { defaultWildCard } from './Constants';
-import { EventEmitter } from './EventEmitter';
-import { EventHistory, EventInfo, EventNamespace, Option } from './Interfaces';
-import { AsyncListener, EventFilter, Listener, ThrottledListener } from './Types';
-import { findEventInfo, getPrioritizedValue, insertSorted, isObjectEmpty, parseEvent } from './Utils';
+import { isDeclaredEvent, resolveDeclaredEvent } from './Catalog';
+import {
+  defaultGlobstar,
+  defaultHistorySize,
+  defaultSeparator,
+  defaultWildCard,
+  errorEvent,
+  validationListenerId
+} from './Constants';
+import { AsyncListenerError, InvocationError, QueueFullError, ValidationError } from './Errors';
+import {
+  CausalNode,
+  ConcurrencyOption,
+  DeadLetter,
+  DebounceOption,
+  DeclaredEvent,
+  DeliveryOption,
+  EmitContext,
+  EmitOption,
+  EmitResult,
+  EventContext,
+  EventDefinition,
+  EventHistory,
+  EventInfo,
+  EventListener,
+  GlobalOption,
+  HistoryOption,
+  HistoryQuery,
+  HistoryStore,
+  JsonSchema,
+  ListenerContext,
+  ListenerController,
+  ListenerErrorEvent,
+  ListenerResult,
+  Option,
+  RetryOption,
+  SchemaOption,
+  Subscription,
+  ThrottleOption,
+  TopicNode
+} from './Interfaces';
+import {
+  AsyncListener,
+  CatalogAction,
+  ContextListener,
+  EmitMiddleware,
+  EventFilter,
+  Listener,
+  ListenerMiddleware,
+  ListenerPredicate,
+  PayloadMatcher,
+  PayloadValidator,
+  ValidationMode
+} from './Types';
+import { MemoryHistoryStore } from './MemoryHistoryStore';
+import { RingBuffer } from './RingBuffer';
+import { Semaphore } from './Semaphore';
+import {
+  buildCausalTree,
+  delay,
+  getPrioritizedValue,
+  getRetryDelay,
+  insertSorted,
+  isPromiseLike,
+  matchesPayload,
+  matchTopic,
+  parseEvent,
+  runMiddleware,
+  splitTopic,
+  stripUnknownProperties,
+  validateSchema
+} from './Utils';
+
+/**
+ * The part of an emitter the listener manager reads, whatever event map the emitter is typed with.
+ */
+interface OptionSource {
+  getGlobalOptions(): GlobalOption;
+}
+
+interface MatchedListener {
+  listenerObject: EventListener;
+}
+
+type ErrorReporter = (listenerError: ListenerErrorEvent) => Promise<void>;
+
+interface StickyPayload extends EmissionIds {
+  args: unknown[];
+  sequence: number;
+  timestamp: number;
+}
+
+const getValidatorReasons = (validator: PayloadValidator, args: unknown[]): string[] => {
+  const result = validator(...args);
+  if (result === true) {
+    return [];
+  }
+
+  return [typeof result === 'string' ? result : 'payload is rejected by the validator'];
+};
+
+interface RegisteredSchema {
+  pattern: string;
+  schema: JsonSchema | PayloadValidator;
+  mode?: ValidationMode;
+}
+
+interface QueuedCall {
+  listenerObject: EventListener;
+  eventName: string;
+  emission: Emission;
+  enqueuedAt: number;
+  resolve: (result: ListenerResult | undefined) => void;
+  reject: (error: unknown) => void;
+}
+
+interface EmissionIds {
+  emitId: string;
+  parentEmitId?: string;
+  correlationId: string;
+}
+
+interface ScopedEmission extends Pick<EmissionIds, 'emitId' | 'correlationId'> {
+  heldSlots: Set<Semaphore>;
+}
+
+interface EmissionScope {
+  getStore(): ScopedEmission | undefined;
+  run<R>(store: ScopedEmission, callback: () => R): R;
+}
+
+interface Emission extends EmitContext, EmissionIds {
+  timestamp: number;
+  source?: string;
+  outcome: EmitResult;
+  reportError: ErrorReporter;
+  targetListeners?: string[];
+  exclusive?: boolean;
+  sequential?: boolean;
+}
+
+interface RateLimitedListener {
+  rateLimit: (invoke: () => unknown) => Promise<unknown>;
+  controller: ListenerController;
+}
+
+/**
+ * Returned by throttled and debounced listeners instead of a value when the call was dropped or replaced.
+ */
+const skippedCall = Symbol('skippedCall');
+
+const createOutcome = (): EmitResult => ({ propagationStopped: false, defaultPrevented: false, droppedListeners: [] });
+
+/**
+ * Creates the scope of the running emission with the `AsyncLocalStorage` of the `async_hooks` module. Runtimes whose
+ * `async_hooks` module lacks it get a scope which never holds an emission, every emission then starts a new correlation.
+ * @returns The scope of the running emission.
+ */
+const createEmissionScope = (): EmissionScope =>
+  typeof AsyncLocalStorage === 'function'
+    ? new AsyncLocalStorage<ScopedEmission>()
+    : { getStore: () => undefined, run: (_store, callback) => callback() };
+
+/**
+ * The emission whose listener is running, shared by all emitters so that emits made by listeners, including those
+ * of other emitters, are linked to the emission which caused them.
+ */
+const emissionScope = createEmissionScope();
+
+/**
+ * Creates the ids of a new emission. An emission made by a running listener gets the emission of the listener as its
+ * parent and shares its correlation id, other emissions start a new correlation with their own emit id.
+ * @returns The emit id, parent emit id and correlation id of the emission.
+ */
+const createEmissionIds = (): EmissionIds => {
+  const parent = emissionScope.getStore();
+  const emitId = uuidv4();
+
+  return {
+    emitId,
+    ...(parent && { parentEmitId: parent.emitId }),
+    correlationId: parent?.correlationId ?? emitId
+  };
+};
+
+/**
+ * The deferred call of a throttled or debounced listener, later calls replace its invocation. Once it has run,
+ * the last deferred call settles with the value or error of the listener and the replaced calls with `skippedCall`.
+ */
+class PendingCall {
+  private invoke?: () => unknown;
+  private waiters: Array<{ resolve: (value: unknown) => void; reject: (error: unknown) => void }> = [];
+
+  get isPending(): boolean {
+    return this.invoke !== undefined;
+  }
+
+  defer(invoke: () => unknown): Promise<unknown> {
+    this.invoke = invoke;
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async run(): Promise<void> {
+    const { invoke, waiters } = this;
+    this.invoke = undefined;
+    this.waiters = [];
+
+    const lastWaiter = waiters.pop();
+    if (!invoke || !lastWaiter) {
+      return;
+    }
+
+    try {
+      lastWaiter.resolve(await invoke());
+    } catch (error) {
+      lastWaiter.reject(error);
+    } finally {
+      waiters.forEach(({ resolve }) => resolve(skippedCall));
+    }
+  }
+
+  cancel(): void {
+    const { waiters } = this;
+    this.invoke = undefined;
+    this.waiters = [];
+    waiters.forEach(({ resolve }) => resolve(skippedCall));
+  }
+}
 
 export class ListenerManager {
-  private eventNamespaces: Record<string, EventNamespace> = {};
-  private readonly wildCardNamespace = '';
-  private eventFilters: EventFilter[] = [];
+  private topicTries = new Map<string, TopicNode>();
+  private listenerSequence = 0;
+  private globalFilters: EventFilter[] = [];
+  private schemas: RegisteredSchema[] = [];
+  private declaredEvents = new Map<string, EventDefinition>();
+  private catalogWarnings = new Set<string>();
+  private emitMiddlewares: EmitMiddleware[] = [];
+  private listenerMiddlewares: ListenerMiddleware[] = [];
   private executingListeners: Record<string, number> = {};
-  private listenerQueue: Array<{
-    listener: Listener;
-    id: string;
-    concurrency: number;
-    isThrottled: boolean;
-    eventName: string;
-    args: unknown[];
-  }> = [];
-  private eventHistory: Array<EventHistory> = [];
+  private listenerQueues = new Map<string, RingBuffer<QueuedCall>>();
+  private deadLetters = new Map<string, DeadLetter>();
+  private concurrencyOption: ConcurrencyOption = {};
+  private concurrencySeparator = defaultSeparator;
+  private globalSemaphore?: Semaphore;
+  private namespaceSemaphores = new Map<string, Semaphore>();
+  private waitingExecutions = 0;
+  private capacityWaiters: Array<() => void> = [];
+  private stickyEvents = new Map<string, RingBuffer<StickyPayload>>();
+  private stickySequence = 0;
+  private readonly memoryHistoryStore = new MemoryHistoryStore();
+  private eventHistory: HistoryStore = this.memoryHistoryStore;
+  private historyOption: HistoryOption = {};
+  private historySeparator = defaultSeparator;
+
+  /**
+   * Configures the storage and retention of the event history, dropping the oldest entries which no longer fit.
+   *
+   * @param option - The history options.
+   * @param option.enabled - Optional. Whether executions are recorded. Default is `true`.
+   * @param option.maxEntries - Optional. Maximum number of entries kept, the oldest entries are dropped first. Default is 1000.
+   * @param option.maxAge - Optional. Time in milliseconds after which entries are dropped. Default is unlimited.
+   * @param option.namespaces - Optional. Enables or disables recording per namespace, the most specific namespace wins.
+   * @param option.store - Optional. The store of the entries. Default is a memory store bounded by `maxEntries`.
+   * @param separator - The separator used to parse namespaces and query patterns.
+   */
+  configureHistory(option: HistoryOption = {}, separator: string = defaultSeparator): void {
+    this.historyOption = { ...option };
+    this.historySeparator = separator;
+    this.eventHistory = option.store ?? this.memoryHistoryStore;
+
+    const maxEntries = option.maxEntries ?? defaultHistorySize;
+    if (!option.store && maxEntries !== this.memoryHistoryStore.maxEntries) {
+      this.memoryHistoryStore.resize(maxEntries);
+    }
+  }
+
+  /**
+   * Configures the limits of listener executions running at the same time across the emitter and the backpressure
+   * applied to `emit`. Changed limits apply to waiting executions right away.
+   *
+   * @param option - The concurrency options.
+   * @param option.limit - Optional. Maximum number of listener executions running at the same time. Default is unlimited.
+   * @param option.namespaces - Optional. Maximum number of listener executions running at the same time per namespace,
+   *                            the limits of all enclosing namespaces of an event apply (e.g., 'app' and 'app.db').
+   * @param option.highWaterMark - Optional. Number of listener executions waiting for capacity from which `emit`
+   *                               applies backpressure. Default is unlimited.
+   * @param option.backpressure - Optional. Whether `emit` waits until fewer executions are waiting (`wait`, default)
+   *                              or rejects with a `QueueFullError` (`reject`).
+   * @param separator - The separator used to parse namespaces.
+   */
+  configureConcurrency(option: ConcurrencyOption = {}, separator: string = defaultSeparator): void {
+    this.concurrencyOption = { ...option };
+    this.concurrencySeparator = separator;
+    this.globalSemaphore = this.resizeSemaphore(this.globalSemaphore, option.limit);
+
+    const namespaceSemaphores = new Map<string, Semaphore>();
+    Object.entries(option.namespaces ?? {}).forEach(([namespace, limit]) => {
+      namespaceSemaphores.set(
+        namespace,
+        this.resizeSemaphore(this.namespaceSemaphores.get(namespace), limit) as Semaphore
+      );
+    });
+    this.namespaceSemaphores.forEach((semaphore, namespace) => {
+      if (!namespaceSemaphores.has(namespace)) {
+        this.resizeSemaphore(semaphore, undefined);
+      }
+    });
+    this.namespaceSemaphores = namespaceSemaphores;
+
+    this.notifyCapacity();
+  }
 
   /**
    * Retrieves the event history based on a specific event name.
    *
    * @param event - The name of the event to filter by. This can include a namespace (e.g., 'namespace.eventName').
-   * @returns {Array<{ event: string, listenerId: string, timestamp: number, args: unknown[] }>}
-   * - An array of objects that match the specified event name, each containing the event name, listener ID, timestamp, and arguments.
+   * @returns {Array<{ event: string, listenerId: string, timestamp: number, args: unknown[], outcome: HistoryOutcome, error?: Error }>}
+   * - An array of objects that match the specified event name, each containing the event name, listener ID, timestamp, arguments and outcome.
    */
   public getSpecificEventHistory(event: string): Array<EventHistory> {
-    return this.eventHistory.filter(history => {
+    return this.getRetainedHistory().filter(history => {
       let matches = true;
 
       if (event) {
@@ -42,11 +334,94 @@ export class ListenerManager {
   /**
    * Retrieves all recorded event histories.
    *
-   * @returns {Array<{ event: string, listenerId: string, timestamp: number, args: unknown[] }>}
-   * - An array of objects, each containing the event name, listener ID, timestamp, and the arguments passed to the listener.
+   * @returns {Array<{ event: string, listenerId: string, timestamp: number, args: unknown[], outcome: HistoryOutcome, error?: Error }>}
+   * - An array of objects, each containing the event name, listener ID, timestamp, the arguments passed to the listener and the outcome.
    */
   public getAllEventHistory(): Array<EventHistory> {
-    return this.eventHistory;
+    return this.getRetainedHistory();
+  }
+
+  /**
+   * Queries the recorded event histories, oldest first.
+   *
+   * @param query - The criteria entries have to match.
+   * @param query.pattern - Optional. An event or wildcard pattern (e.g., 'orders.*' or 'app.**') the event has to match.
+   * @param query.listenerId - Optional. The unique identifier of the invoked listener.
+   * @param query.correlationId - Optional. The correlation id shared by a root emission and the emissions it caused.
+   * @param query.from - Optional. The earliest timestamp, inclusive.
+   * @param query.to - Optional. The latest timestamp, inclusive.
+   * @param query.outcome - Optional. Whether the listener succeeded (`success`) or threw (`error`).
+   * @param query.offset - Optional. Number of matching entries to skip. Default is 0.
+   * @param query.limit - Optional. Maximum number of entries returned. Default is unlimited.
+   * @returns The matching entries.
+   */
+  public queryHistory(query: HistoryQuery = {}): Array<EventHistory> {
+    return this.filterHistory(this.getRetainedHistory(), query);
+  }
+
+  /**
+   * Queries the recorded event histories, oldest first, from stores reading synchronously or asynchronously, e.g.
+   * stores backed by a database.
+   *
+   * @param query - The criteria entries have to match, as for `queryHistory`.
+   * @returns A promise that resolves with the matching entries.
+   */
+  public async fetchHistory(query: HistoryQuery = {}): Promise<Array<EventHistory>> {
+    await this.pruneHistory();
+    return this.filterHistory(this.retainHistory(await this.eventHistory.read()), query);
+  }
+
+  /**
+   * Selects the history entries matching a query.
+   *
+   * @param entries - The retained entries, oldest first.
+   * @param query - The criteria entries have to match.
+   * @returns The matching entries.
+   */
+  private filterHistory(entries: Array<EventHistory>, query: HistoryQuery): Array<EventHistory> {
+    const { pattern, listenerId, correlationId, from, to, outcome, offset = 0, limit = Infinity } = query;
+
+    return entries
+      .filter(
+        history =>
+          (pattern === undefined || matchTopic(pattern, history.event, this.historySeparator)) &&
+          (listenerId === undefined || history.listenerId === listenerId) &&
+          (correlationId === undefined || history.correlationId === correlationId) &&
+          (from === undefined || history.timestamp >= from) &&
+          (to === undefined || history.timestamp <= to) &&
+          (outcome === undefined || history.outcome === outcome)
+      )
+      .slice(offset, offset + limit);
+  }
+
+  /**
+   * Builds the causal tree of an emission from the recorded event histories: the emissions made by its listeners,
+   * the emissions made by their listeners, and so on.
+   *
+   * @param emitId - The unique identifier of the emission at the root of the tree.
+   * @returns The emission with its history entries and the emissions it caused, or `undefined` if no entry of the
+   *          emission is recorded.
+   */
+  public getCausalTree(emitId: string): CausalNode | undefined {
+    return buildCausalTree(this.getRetainedHistory(), emitId);
+  }
+
+  /**
+   * Removes every recorded event history.
+   *
+   * @returns A promise that resolves once the store has been cleared.
+   */
+  public async clearHistory(): Promise<void> {
+    await this.eventHistory.clear();
+  }
+
+  /**
+   * Writes the entries buffered by the history store.
+   *
+   * @returns A promise that resolves once the buffered entries have been written.
+   */
+  public async flushHistory(): Promise<void> {
+    await this.eventHistory.flush?.();
   }
 
   /**
@@ -55,50 +430,145 @@ export class ListenerManager {
    * @param listener - The listener function to be called when the event is emitted.
    *                  This can be either a `Listener` (synchronous function) or `AsyncListener` (asynchronous function).
    * @param option - An object containing various configuration options for the listener.
-   * @param option.filter - Optional. A filter function to determine whether the listener should be executed.
-   * @param option.throttle - Optional. Time in milliseconds to throttle the execution of the listener.
+   * @param option.filter - Optional. A filter function to determine whether this listener should be executed.
+   * @param option.predicate - Optional. A function receiving the event context and arguments, or a declarative
+   *                           matcher for the first argument, to determine whether this listener should be executed.
+   * @param option.throttle - Optional. Time in milliseconds to throttle the execution of the listener, or an object
+   *                          with the `wait` time and whether calls run on the `leading` and `trailing` edge.
    *                          If specified, the listener will only be called once within the given time window.
-   * @param option.debounce - Optional. Time in milliseconds to debounce the execution of the listener.
+   * @param option.debounce - Optional. Time in milliseconds to debounce the execution of the listener, or an object
+   *                          with the `wait` time, the `maxWait` time and whether the first call runs on the `leading` edge.
    *                          If specified, the listener will be delayed and only called after the delay has passed since the last event.
    * @param option.priority - Optional. Priority of the listener. Higher values execute first. Default is 0.
    * @param option.concurrency - Optional. Maximum number of listeners executed in parallel. Default is unlimited.
+   * @param option.maxQueueSize - Optional. Maximum number of calls queued once the concurrency limit is reached.
+   *                              Default is unlimited.
+   * @param option.queueOverflow - Optional. Policy applied when the queue is full: `drop-oldest` (default),
+   *                               `drop-newest` or `reject`.
    * @param option.separator - Optional. Custom separator used for parsing the event. Default is the global separator.
+   * @param option.maxCalls - Optional. Number of times the listener is called before it is removed automatically.
+   * @param option.ttl - Optional. Time in milliseconds after which the listener is removed automatically.
+   * @param option.signal - Optional. An `AbortSignal` which removes the listener once aborted.
+   * @param option.retry - Optional. Number of attempts, backoff strategy, delay and jitter for retrying failed calls.
+   *                       Calls still failing after the last attempt are added to the dead-letter queue.
+   * @param option.context - Optional. Passes the event context instead of the event name as the first argument,
+   *                         letting the listener stop the propagation or prevent the default.
+   * @param internal - Optional. Marks a listener added by the emitter itself, e.g. for `waitFor`, which receives the
+   *                   events but is left out of subscription listings, results and `invoke`.
+   * @returns The subscription with the id of the listener, `flush` running a pending throttled or debounced call
+   *          right away and `cancel` dropping it.
+   *
+   * The sticky payloads of matching events are delivered to the new listener right away.
    */
-  addListener(emitter: EventEmitter, event: string, listener: Listener | AsyncListener, option: Option): void {
-    const { filter, throttle, debounce, priority, concurrency, separator }: Option = option;
+  addListener(
+    emitter: OptionSource,
+    event: string,
+    listener: Listener | AsyncListener | ContextListener,
+    option: Option,
+    internal = false
+  ): Subscription {
+    // Context listeners are stored like other listeners, they receive the event context in place of the event name.
+    const callback = listener as Listener | AsyncListener;
+    const {
+      filter,
+      predicate,
+      throttle,
+      debounce,
+      priority,
+      concurrency,
+      maxQueueSize,
+      queueOverflow,
+      separator,
+      maxCalls,
+      ttl,
+      signal,
+      retry,
+      context
+    }: Option = option;
+
+    const id = uuidv4();
+
+    if (signal?.aborted) {
+      return this.createSubscription(id);
+    }
+
+    this.warnCatalog(emitter, 'subscribe', event);
+
     const usedSeparator = getPrioritizedValue(emitter.getGlobalOptions().separator, separator);
     const eventInfo = { separator: usedSeparator, event };
 
-    const [namespace, eventName] = parseEvent(event, usedSeparator);
-
-    const throttledListener =
+    const rateLimitedListener =
       throttle !== undefined
-        ? this.throttle(listener, throttle, eventName)
+        ? this.throttle(typeof throttle === 'number' ? { wait: throttle } : throttle)
         : debounce !== undefined
-          ? this.debounce(listener, debounce, eventName)
-          : listener;
+          ? this.debounce(typeof debounce === 'number' ? { wait: debounce } : debounce)
+          : undefined;
 
-    const listenerObject = {
-      listener: throttledListener,
+    const listenerObject: EventListener = {
+      listener: callback,
       priority: priority ?? 0,
       eventInfo,
       concurrency: concurrency ?? Infinity,
-      id: uuidv4()
+      id,
+      sequence: this.listenerSequence++
     };
 
-    if (!this.eventNamespaces[namespace]) {
-      this.eventNamespaces[namespace] = {};
+    if (rateLimitedListener) {
+      listenerObject.rateLimit = rateLimitedListener.rateLimit;
+      listenerObject.controller = rateLimitedListener.controller;
     }
-    if (!this.eventNamespaces[namespace][eventName]) {
-      this.eventNamespaces[namespace][eventName] = { listeners: [] };
+
+    if (filter) {
+      listenerObject.filter = filter;
     }
 
-    insertSorted(this.eventNamespaces[namespace][eventName].listeners, listenerObject);
-    this.eventNamespaces[namespace][eventName].throttled = throttle !== undefined;
+    if (predicate) {
+      listenerObject.predicate = predicate;
+    }
 
-    if (filter) {
-      this.eventFilters.push(filter);
+    if (maxCalls !== undefined) {
+      listenerObject.maxCalls = maxCalls;
+      listenerObject.calls = 0;
+    }
+
+    if (maxQueueSize !== undefined) {
+      listenerObject.maxQueueSize = maxQueueSize;
+    }
+
+    if (queueOverflow) {
+      listenerObject.queueOverflow = queueOverflow;
     }
+
+    if (retry) {
+      listenerObject.retry = retry;
+    }
+
+    if (context) {
+      listenerObject.context = true;
+    }
+
+    if (internal) {
+      listenerObject.internal = true;
+    }
+
+    if (!this.topicTries.has(usedSeparator)) {
+      this.topicTries.set(usedSeparator, { children: new Map(), listeners: [] });
+    }
+
+    let node = this.topicTries.get(usedSeparator) as TopicNode;
+    for (const segment of splitTopic(event, usedSeparator)) {
+      if (!node.children.has(segment)) {
+        node.children.set(segment, { children: new Map(), listeners: [] });
+      }
+      node = node.children.get(segment) as TopicNode;
+    }
+
+    insertSorted(node.listeners, listenerObject);
+
+    this.bindLifetime(listenerObject, ttl, signal);
+    this.replaySticky(emitter, listenerObject);
+
+    return this.createSubscription(id, listenerObject.controller);
   }
 
   /**
@@ -106,277 +576,1623 @@ export class ListenerManager {
    * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
    * @param listener - The listener function to be removed from the specified event.
    */
-  removeListener(_emitter: EventEmitter, event: string, listener: Listener): void {
+  removeListener(_emitter: OptionSource, event: string, listener: Listener): void {
     this.removeSubscriptionOrListener(event, listener);
   }
 
   /**
-   * @param _emitter - The `EventEmitter` instance. This parameter is unused in this method, as we only need access to the event namespaces.
-   * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
-   * @param args - Additional arguments to be passed to the listeners when they are invoked.
+   * Adds a filter which gates every emitted event, the event is only delivered if all global filters pass.
    *
-   * This method processes and executes listeners for specific namespaces and wildcard combinations.
+   * @param filter - A filter function receiving the event name and namespace, parsed with the global separator.
    */
-  async executeListeners(_emitter: EventEmitter, event: string, args: unknown[]): Promise<void> {
-    const separator = findEventInfo(event, this.eventNamespaces);
-
-    const [namespace, eventName] = parseEvent(event, separator);
-
-    const shouldEmit = this.eventFilters.length === 0 || this.eventFilters.some(filter => filter(eventName, namespace));
-    if (shouldEmit) {
-      await Promise.all([
-        this.executeSpecificListeners(this.wildCardNamespace, defaultWildCard, eventName, separator, args),
-        this.wildCardNamespace !== namespace &&
-          this.executeSpecificListeners(namespace, defaultWildCard, eventName, separator, args),
-        this.executeSpecificListeners(defaultWildCard, eventName, eventName, separator, args),
-        this.executeSpecificListeners(namespace, eventName, eventName, separator, args)
-      ]);
-    }
+  addGlobalFilter(filter: EventFilter): void {
+    this.globalFilters.push(filter);
   }
 
   /**
-   * Lists all event subscriptions, including event names and listener count.
+   * Removes a previously added global filter.
    *
-   * @returns {Array<{ event: string, listenerCount: number }>} - An array of objects, each containing event name and count of listeners.
+   * @param filter - The filter function to be removed.
    */
-  listSubscriptions(): Array<{ event: string; listenerCount: number }> {
-    const subscriptions: Array<{ event: string; listenerCount: number }> = [];
+  removeGlobalFilter(filter: EventFilter): void {
+    this.globalFilters = this.globalFilters.filter(globalFilter => globalFilter !== filter);
+  }
 
-    for (const namespace in this.eventNamespaces) {
-      for (const eventName in this.eventNamespaces[namespace]) {
-        subscriptions.push({
-          event: namespace ? `${namespace}.${eventName}` : eventName,
-          listenerCount: this.eventNamespaces[namespace][eventName].listeners.length
-        });
-      }
-    }
+  /**
+   * Registers the schema which validates the payload of the events matching the given event or wildcard pattern,
+   * replacing the schema previously registered for the same pattern. Every matching schema applies to an event.
+   *
+   * @param pattern - The event or wildcard pattern (e.g., 'orders.*').
+   * @param schema - A JSON Schema subset validating the first argument, or a validator function receiving all arguments.
+   * @param option - Optional. Options of the schema.
+   * @param option.mode - Optional. Whether an invalid payload rejects the emission (`reject`), is reported to the error
+   *                      handler and delivered anyway (`warn`) or loses its undeclared properties before being
+   *                      validated (`strip`). Defaults to the `validation` global option, itself `reject` by default.
+   */
+  registerSchema(pattern: string, schema: JsonSchema | PayloadValidator, option: SchemaOption = {}): void {
+    this.unregisterSchema(pattern);
+    this.schemas.push({ pattern, schema, mode: option.mode });
+  }
 
-    return subscriptions;
+  /**
+   * Removes the schema registered for the given pattern.
+   *
+   * @param pattern - The event or wildcard pattern the schema was registered for.
+   */
+  unregisterSchema(pattern: string): void {
+    this.schemas = this.schemas.filter(registered => registered.pattern !== pattern);
   }
 
   /**
-   * Inspects a specific event subscription, showing details of listeners.
+   * Declares an event or wildcard pattern in the event catalog, replacing its previous declaration.
    *
-   * @param event - The event name, possibly with a namespace (e.g., 'namespace.eventName').
-   * @returns {Array<Object>} - An array of objects, each containing listener details (id, priority, concurrency, eventInfo, listener).
+   * @param topic - The event or wildcard pattern (e.g., 'orders.created').
+   * @param definition - The description, payload schema, owner and deprecation of the event.
    */
-  inspectSubscription(event: string): Array<{
-    id: string;
-    eventInfo: EventInfo;
-    listener: Listener;
-    priority: number;
-    concurrency: number;
-  }> {
-    const separator = findEventInfo(event, this.eventNamespaces);
-    const [namespace, eventName] = parseEvent(event, separator);
+  declareEvent(topic: string, definition: EventDefinition): void {
+    this.declaredEvents.set(topic, { ...definition });
+  }
 
-    const listeners = this.eventNamespaces[namespace]?.[eventName]?.listeners ?? [];
+  /**
+   * Removes an event or wildcard pattern from the event catalog.
+   *
+   * @param topic - The declared event or wildcard pattern.
+   */
+  undeclareEvent(topic: string): void {
+    this.declaredEvents.delete(topic);
+  }
 
-    return listeners.map(listener => ({
-      id: listener.id,
-      priority: listener.priority,
-      concurrency: listener.concurrency,
-      eventInfo: listener.eventInfo,
-      listener: listener.listener
-    }));
+  /**
+   * Lists the events declared in the event catalog, in the order they were declared.
+   *
+   * @returns The declared events with their topic, description, payload schema, owner and deprecation.
+   */
+  getDeclaredEvents(): DeclaredEvent[] {
+    return Array.from(this.declaredEvents, ([topic, definition]) => ({ topic, ...definition }));
   }
 
   /**
-   * Remove a subscription from the ListenerManager.
+   * Adds a middleware which runs around every emission, in the order the middlewares were added.
    *
-   * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
-   * @param listenerId - The unique identifier of the listener to be removed.
+   * @param middleware - The middleware function receiving the emit context and the `next` function.
    */
-  removeSubscription(event: string, listenerId: string): void {
-    this.removeSubscriptionOrListener(event, listenerId);
+  addEmitMiddleware(middleware: EmitMiddleware): void {
+    this.emitMiddlewares.push(middleware);
   }
 
   /**
-   * Records an event occurrence in the history log.
+   * Adds a middleware which runs around every listener execution, in the order the middlewares were added.
    *
-   * @param event - The name of the event that was emitted, which can include a namespace (e.g., 'namespace.eventName').
-   * @param listenerId - The unique identifier of the listener that was invoked.
-   * @param args - The arguments that were passed to the listener when it was invoked.
+   * @param middleware - The middleware function receiving the listener context and the `next` function.
    */
-  private recordEventHistory(event: string, listenerId: string, args: unknown[]): void {
-    this.eventHistory.push({
-      event,
-      listenerId: listenerId,
-      timestamp: Date.now(),
-      args
-    });
+  addListenerMiddleware(middleware: ListenerMiddleware): void {
+    this.listenerMiddlewares.push(middleware);
   }
 
   /**
-   * Remove a subscription or listener from the ListenerManager.
+   * Removes a previously added emit or listener middleware.
    *
+   * @param middleware - The middleware function to be removed.
+   */
+  removeMiddleware(middleware: EmitMiddleware | ListenerMiddleware): void {
+    this.emitMiddlewares = this.emitMiddlewares.filter(emitMiddleware => emitMiddleware !== middleware);
+    this.listenerMiddlewares = this.listenerMiddlewares.filter(listenerMiddleware => listenerMiddleware !== middleware);
+  }
+
+  /**
+   * @param emitter - The `EventEmitter` instance, used for the global separator applied to global filters and the
+   *                  error handling options.
    * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
-   * @param listenerOrId - The unique identifier of the listener to be removed, or the listener function itself.
+   * @param args - Additional arguments to be passed to the listeners when they are invoked.
+   * @param option - Optional. Options of the emission.
+   * @param option.sticky - Optional. Keeps the payload for listeners added later, `true` keeps the last payload of
+   *                        the event and a number the last N payloads. Defaults to the `sticky` global option.
+   * @param option.execution - Optional. Starts the listeners at once (`parallel`) or awaits them one by one
+   *                           (`sequential`). Defaults to the `execution` global option, itself `parallel` by default.
+   * @param option.source - Optional. The origin of the emission, passed to listeners receiving the event context.
+   * @param delivery - Optional. Options of the delivery to the listeners.
+   * @param delivery.targetListeners - Optional. The ids of the listeners to execute, other matching listeners are
+   *                                   skipped.
+   * @param delivery.collectErrors - Optional. Returns listener errors in the results instead of applying the error
+   *                                 policy.
+   * @param delivery.exclusive - Optional. Rejects with an `InvocationError` unless exactly one listener would execute.
+   * @returns A promise that resolves with the value or error of every executed listener, in priority order, and
+   *          whether a listener stopped the propagation or prevented the default.
+   *
+   * This method runs the emit middlewares, validates the arguments against the registered schemas and executes every
+   * listener whose event or wildcard pattern matches the event, in priority order. In the sequential execution mode a
+   * listener starts once the previous one has settled. Listener errors are reported according to the error policy:
+   * `swallow` (default) resolves, `fail-fast` rejects with the first error and stops the sequential listeners, and
+   * `aggregate` rejects with an `AggregateError` once all listeners have finished.
    */
-  private removeSubscriptionOrListener(event: string, listenerOrId: string | Listener): void {
-    const separator = findEventInfo(event, this.eventNamespaces);
+  async executeListeners(
+    emitter: OptionSource,
+    event: string,
+    args: unknown[],
+    option: EmitOption = {},
+    delivery: DeliveryOption = {}
+  ): Promise<EmitResult & { results: ListenerResult[] }> {
+    const context: EmitContext = { event, args, metadata: {} };
+    const outcome = createOutcome();
+    let results: ListenerResult[] = [];
 
-    const [namespace, eventName] = parseEvent(event, separator);
+    await runMiddleware([...this.emitMiddlewares], context, async () => {
+      const { separator, sticky, execution } = emitter.getGlobalOptions();
+      const errorPolicy = delivery.collectErrors ? 'swallow' : emitter.getGlobalOptions().errorPolicy;
+      const [namespace, eventName] = parseEvent(context.event, separator);
+      const emissionIds = createEmissionIds();
+      this.warnCatalog(emitter, 'emit', context.event);
+      context.args = this.validatePayload(emitter, context.event, context.args, emissionIds);
+
+      const shouldEmit = this.globalFilters.every(filter => filter(eventName, namespace));
+      if (!shouldEmit) {
+        return;
+      }
 
-    const namespaceObject = this.eventNamespaces[namespace];
-    if (namespaceObject && namespaceObject[eventName]) {
-      const listeners = namespaceObject[eventName].listeners;
-      let index = -1;
-      if (typeof listenerOrId === 'string') {
-        index = listeners.findIndex(l => l.id === listenerOrId);
-      } else {
-        index = listeners.findIndex(l => l.listener === listenerOrId);
+      const waitingForCapacity = this.waitForCapacity();
+      if (waitingForCapacity) {
+        await waitingForCapacity;
       }
 
-      if (index !== -1) {
-        listeners.splice(index, 1);
+      this.storeSticky(
+        context.event,
+        context.args,
+        this.resolveStickySize(option.sticky, sticky, context.event, separator),
+        emissionIds
+      );
 
-        if (!listeners.length) {
-          delete namespaceObject[eventName];
-        }
+      const errors: Error[] = [];
+      const reportError: ErrorReporter = async listenerError => {
+        errors.push(listenerError.error);
+        await this.handleListenerError(emitter, listenerError);
 
-        if (isObjectEmpty(namespaceObject)) {
-          delete this.eventNamespaces[namespace];
+        if (errorPolicy === 'fail-fast') {
+          throw listenerError.error;
         }
-      }
-    }
-  }
+      };
 
-  /**
-   * Executes specific listeners for the given namespace, event, and wildcard combination.
-   * @param namespace - The namespace for which listeners should be executed.
-   * @param checkEventName - The event name or wildcard to check for listeners.
-   * @param eventName - The actual event name for emitting.
-   * @param separator - Separator used for parsing the event (if applicable, default is '.').
-   * @param args - Additional arguments to be passed to the listeners.
-   * @returns A promise that resolves when all specific listeners have been executed.
-   */
-  private async executeSpecificListeners(
-    namespace: string,
-    checkEventName: string,
-    eventName: string,
-    separator: string,
-    args: unknown[]
-  ): Promise<void> {
-    const specificListeners = this.eventNamespaces[namespace]?.[checkEventName]?.listeners ?? [];
-    const isThrottled = this.eventNamespaces[namespace]?.[checkEventName]?.throttled ?? false;
-
-    const listenerPromises = specificListeners
-      .filter(({ eventInfo }) => eventInfo.separator === separator)
-      .map(async ({ listener, concurrency, id }) => {
-        await this.processListener(listener, id, concurrency, isThrottled, eventName, args);
+      results = await this.executeMatchingListeners(this.findMatchingListeners(context.event), {
+        ...context,
+        ...emissionIds,
+        timestamp: Date.now(),
+        source: option.source,
+        outcome,
+        reportError,
+        targetListeners: delivery.targetListeners,
+        exclusive: delivery.exclusive,
+        sequential: (option.execution ?? execution) === 'sequential'
       });
 
-    await Promise.all(listenerPromises);
+      if (errorPolicy === 'aggregate' && errors.length) {
+        throw new AggregateError(errors, `${errors.length} listener(s) failed for event ${context.event}`);
+      }
+    });
+
+    return { ...outcome, results };
   }
 
   /**
-   * Executes a listener with concurrency control and handles queuing if the concurrency limit is reached.
+   * @param emitter - The `EventEmitter` instance, used for the global separator applied to global filters and the error handling options.
+   * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
+   * @param args - Additional arguments to be passed to the listeners when they are invoked.
+   * @param option - Optional. Options of the emission, as for `executeListeners`.
+   * @returns The value or error of every executed listener, in priority order, and whether a listener stopped the
+   *          propagation or prevented the default.
+   * @throws The first listener error with the `fail-fast` error policy, or an `AggregateError` with the `aggregate` one.
    *
-   * @param listener - The listener function to execute, either throttled or async.
-   * @param id - The unique identifier for the listener to track execution.
-   * @param concurrency - The maximum number of concurrent executions allowed for this listener.
-   * @param isThrottled - A flag indicating whether the listener is throttled.
-   * @param eventName - The name of the event being emitted.
-   * @param args - The arguments to pass to the listener function.
+   * This method is the synchronous counterpart of `executeListeners`: schemas, global filters, routing, filters,
+   * predicates, `maxCalls`, sticky payloads and the event history apply, and every matching listener has run in priority order
+   * when it returns. Middlewares, concurrency limits and retries are asynchronous and do not apply. A listener which
+   * returns a promise fails with an `AsyncListenerError` and its promise is not awaited, throttled and debounced
+   * listeners fail without being called. Errors are passed to the `onError` handler before the next listener runs.
    */
-  private processListener = async (
-    listener: Listener,
-    id: string,
-    concurrency: number,
-    isThrottled: boolean,
-    eventName: string,
-    args: unknown[]
-  ) => {
-    const executingCount = this.executingListeners[id] || 0;
-    if (executingCount < concurrency) {
-      this.executingListeners[id] = executingCount + 1;
+  executeListenersSync(
+    emitter: OptionSource,
+    event: string,
+    args: unknown[],
+    option: EmitOption = {}
+  ): EmitResult & { results: ListenerResult[] } {
+    const { separator, sticky, errorPolicy } = emitter.getGlobalOptions();
+    const [namespace, eventName] = parseEvent(event, separator);
+    const outcome = createOutcome();
+    const emissionIds = createEmissionIds();
+    this.warnCatalog(emitter, 'emit', event);
+    const payload = this.validatePayload(emitter, event, args, emissionIds);
+
+    const shouldEmit = this.globalFilters.every(filter => filter(eventName, namespace));
+    if (!shouldEmit) {
+      return { ...outcome, results: [] };
+    }
+
+    this.storeSticky(event, payload, this.resolveStickySize(option.sticky, sticky, event, separator), emissionIds);
+
+    const { emitId, correlationId } = emissionIds;
+    const timestamp = Date.now();
+    const results: ListenerResult[] = [];
+    const errors: Error[] = [];
+    const reportError = (listenerId: string, error: Error): void => {
+      results.push({ listenerId, error });
+      errors.push(error);
+      this.handleListenerError(emitter, { event, listenerId, error, args: payload }).catch(() => undefined);
+
+      if (errorPolicy === 'fail-fast') {
+        throw error;
+      }
+    };
+
+    for (const { listenerObject } of this.findMatchingListeners(event)) {
+      const { id, eventInfo, listener, controller } = listenerObject;
+      if (outcome.propagationStopped) {
+        break;
+      }
+
+      if (!this.passesFilter(listenerObject, event)) {
+        continue;
+      }
+
+      let passesPredicate: boolean;
+      try {
+        passesPredicate = this.passesPredicate(listenerObject, event, payload);
+      } catch (error) {
+        reportError(id, error as Error);
+        continue;
+      }
+
+      if (!passesPredicate || !this.consumeCall(listenerObject)) {
+        continue;
+      }
+
+      const [, listenerEventName] = parseEvent(event, eventInfo.separator);
+      let value: unknown;
       try {
-        if (isThrottled) {
-          await (listener as ThrottledListener)(eventName, ...args);
-        } else {
-          await (listener as AsyncListener)(eventName, ...args);
+        if (controller) {
+          throw new AsyncListenerError(`The listener ${id} of event ${event} is throttled or debounced`);
         }
 
-        this.recordEventHistory(eventName, id, args);
+        const eventArg = listenerObject.context
+          ? this.createEventContext(listenerObject, {
+              event,
+              ...emissionIds,
+              timestamp,
+              source: option.source,
+              outcome
+            })
+          : listenerEventName;
+        const heldSlots = emissionScope.getStore()?.heldSlots ?? new Set<Semaphore>();
+        value = emissionScope.run({ emitId, correlationId, heldSlots }, () =>
+          (listener as (...listenerArgs: unknown[]) => unknown)(eventArg, ...payload)
+        );
 
+        if (isPromiseLike(value)) {
+          value.then(undefined, () => undefined);
+          throw new AsyncListenerError(`The listener ${id} of event ${event} returned a promise`);
+        }
       } catch (error) {
-        this.handleListenerError(eventName, error as Error);
-      } finally {
-        this.executingListeners[id]--;
-        await this.dequeueNextListener(id);
+        this.recordEventHistory(event, id, payload, emissionIds, error as Error);
+        reportError(id, error as Error);
+        continue;
+      }
+
+      this.recordEventHistory(event, id, payload, emissionIds);
+      if (!listenerObject.internal) {
+        results.push({ listenerId: id, value });
       }
-    } else {
-      this.listenerQueue.push({ listener, id, concurrency, isThrottled, eventName, args });
     }
-  };
+
+    if (errorPolicy === 'aggregate' && errors.length) {
+      throw new AggregateError(errors, `${errors.length} listener(s) failed for event ${event}`);
+    }
+
+    return { ...outcome, results };
+  }
 
   /**
-   * Dequeues and processes the next listener from the listener queue.
+   * Removes the sticky payloads of the events matching the given event or wildcard pattern, or of all events.
    *
-   * @param id - The ID of the listener to be dequeued.
-   * @returns {Promise<void>} A promise that resolves once the listener has been processed.
+   * @param emitter - The `EventEmitter` instance, used for the global separator applied to the pattern.
+   * @param event - Optional. The event or wildcard pattern (e.g., 'config.*'). Default is every event.
    */
-  private async dequeueNextListener(id: string): Promise<void> {
-    const nextTaskIndex = this.listenerQueue.findIndex(task => task.id === id);
-    if (nextTaskIndex !== -1) {
-      const [nextTask] = this.listenerQueue.splice(nextTaskIndex, 1);
+  clearSticky(emitter: OptionSource, event?: string): void {
+    const { separator } = emitter.getGlobalOptions();
 
-      await this.processListener(
-        nextTask.listener,
-        nextTask.id,
-        nextTask.concurrency,
-        nextTask.isThrottled,
-        nextTask.eventName,
-        nextTask.args
-      );
+    for (const topic of Array.from(this.stickyEvents.keys())) {
+      if (event === undefined || matchTopic(event, topic, separator)) {
+        this.stickyEvents.delete(topic);
+      }
     }
   }
 
   /**
-   * Handles errors that occur during the execution of a listener.
-   * @param eventName - The name of the event for which the listener encountered an error.
-   * @param error - The error object representing the encountered error.
+   * Lists the listener calls which still failed after their last retry attempt, oldest first.
+   *
+   * @returns The dead letters with their event, arguments, listener id, error and number of attempts.
    */
-  private handleListenerError(eventName: string, error: Error): void {
-    console.error(`Error in listener for event ${eventName}:`, error);
-    console.error(error.stack);
+  getDeadLetters(): DeadLetter[] {
+    return Array.from(this.deadLetters.values());
   }
 
   /**
-   * Creates a throttled version of the given listener function, ensuring it is called at most once within a specified time interval.
-   * @param fn - The listener function to be throttled.
-   * @param delay - The time delay (in milliseconds) between allowed invocations of the throttled function.
-   * @param eventName - The name of the event associated with the listener.
-   * @returns A throttled listener function.
+   * Calls the listeners of dead letters again with their original event and arguments, one after another. The listener
+   * functions are called directly, without throttling, debouncing or the queue of the listener, and the filters and
+   * predicates are not checked again. A dead letter is removed once its call succeeds and updated with the last error
+   * and attempts if it fails again, dead letters of removed listeners are kept.
+   *
+   * @param emitter - The `EventEmitter` instance whose error handling options apply.
+   * @param ids - Optional. The ids of the dead letters to redrive, all dead letters are redriven if omitted.
+   * @returns A promise that resolves with the value or error of every redriven listener call.
    */
-  private throttle(fn: Listener | AsyncListener, delay: number, eventName: string): ThrottledListener | AsyncListener {
-    let lastCallTime = 0;
+  async redriveDeadLetters(emitter: OptionSource, ids?: string[]): Promise<ListenerResult[]> {
+    const results: ListenerResult[] = [];
 
-    return async function (...args: unknown[]): Promise<void> {
-      const now = Date.now();
-      if (now - lastCallTime >= delay) {
-        lastCallTime = now;
-        await (fn as AsyncListener)(eventName, ...args);
+    for (const deadLetter of this.getDeadLetters()) {
+      const matchedListener = this.findMatchingListeners(deadLetter.event).find(
+        ({ listenerObject }) => listenerObject.id === deadLetter.listenerId
+      );
+      if ((ids && !ids.includes(deadLetter.id)) || !matchedListener) {
+        continue;
       }
-    };
-  }
 
-  /**
-   * Creates a debounced version of the given listener function, ensuring it is called after a specified delay with no new invocations.
-   * @param fn - The listener function to be debounced.
-   * @param delay - The time delay (in milliseconds) before the debounced function is called after the last invocation.
-   * @param eventName - The name of the event associated with the listener.
-   * @returns A debounced listener function.
-   */
-  private debounce(fn: Listener | AsyncListener, delay: number, eventName: string): ThrottledListener | AsyncListener {
-    let timeout: NodeJS.Timeout;
+      const { listenerObject } = matchedListener;
+      const [, eventName] = parseEvent(deadLetter.event, listenerObject.eventInfo.separator);
 
-    return async function (...args: unknown[]): Promise<void> {
-      clearTimeout(timeout);
-      timeout = setTimeout(async () => {
-        await (fn as AsyncListener)(eventName, ...args);
-      }, delay);
-    };
+      const emission: Emission = {
+        event: deadLetter.event,
+        args: deadLetter.args,
+        metadata: {},
+        ...createEmissionIds(),
+        timestamp: Date.now(),
+        outcome: createOutcome(),
+        reportError: error => this.handleListenerError(emitter, error)
+      };
+      const result = await this.executeAttempts(listenerObject, eventName, emission, deadLetter.id);
+
+      if (result) {
+        results.push(result);
+        if (!result.error) {
+          this.deadLetters.delete(deadLetter.id);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Removes dead letters from the queue.
+   *
+   * @param ids - Optional. The ids of the dead letters to remove, all dead letters are removed if omitted.
+   */
+  purgeDeadLetters(ids?: string[]): void {
+    if (!ids) {
+      this.deadLetters.clear();
+      return;
+    }
+
+    ids.forEach(id => this.deadLetters.delete(id));
+  }
+
+  /**
+   * Resolves the listeners which an emission of the event would execute, checking the global filters and the filters
+   * and predicates of the matching listeners without executing them. Predicates which throw are treated as failing.
+   *
+   * @param emitter - The `EventEmitter` instance, used for the global separator applied to global filters.
+   * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
+   * @param args - The arguments the predicates are checked against.
+   * @returns The ids of the listeners in the order they would be executed.
+   */
+  resolveListeners(emitter: OptionSource, event: string, args: unknown[]): string[] {
+    const [namespace, eventName] = parseEvent(event, emitter.getGlobalOptions().separator);
+    if (!this.globalFilters.every(filter => filter(eventName, namespace))) {
+      return [];
+    }
+
+    return this.findMatchingListeners(event)
+      .filter(({ listenerObject }) => this.wouldExecute(listenerObject, event, args))
+      .map(({ listenerObject }) => listenerObject.id);
+  }
+
+  /**
+   * Lists all event subscriptions, including event names and listener count.
+   *
+   * @returns {Array<{ event: string, listenerCount: number }>} - An array of objects, each containing event name and count of listeners.
+   */
+  listSubscriptions(): Array<{ event: string; listenerCount: number }> {
+    const listenerCounts = new Map<string, number>();
+
+    const visit = (node: TopicNode) => {
+      for (const { eventInfo } of node.listeners.filter(listenerObject => !listenerObject.internal)) {
+        listenerCounts.set(eventInfo.event, (listenerCounts.get(eventInfo.event) ?? 0) + 1);
+      }
+      node.children.forEach(visit);
+    };
+    this.topicTries.forEach(visit);
+
+    return Array.from(listenerCounts, ([event, listenerCount]) => ({ event, listenerCount }));
+  }
+
+  /**
+   * Inspects a specific event subscription, showing details of listeners.
+   *
+   * @param event - The event name, possibly with a namespace (e.g., 'namespace.eventName').
+   * @returns {Array<Object>} - An array of objects, each containing listener details (id, priority, concurrency, eventInfo, listener, predicate, retry),
+   * the number of queued calls (`queueDepth`) and the time in milliseconds the oldest queued call has been waiting (`queueWaitTime`).
+   */
+  inspectSubscription(event: string): Array<{
+    id: string;
+    eventInfo: EventInfo;
+    listener: Listener;
+    priority: number;
+    concurrency: number;
+    predicate?: ListenerPredicate | PayloadMatcher;
+    retry?: RetryOption;
+    queueDepth: number;
+    queueWaitTime: number;
+  }> {
+    const listeners = this.findSubscribedListeners(event).filter(listenerObject => !listenerObject.internal);
+
+    return listeners.map(listener => ({
+      id: listener.id,
+      priority: listener.priority,
+      concurrency: listener.concurrency,
+      eventInfo: listener.eventInfo,
+      listener: listener.listener,
+      ...this.inspectQueue(listener.id),
+      ...(listener.predicate && { predicate: listener.predicate }),
+      ...(listener.retry && { retry: listener.retry })
+    }));
+  }
+
+  /**
+   * Remove a subscription from the ListenerManager.
+   *
+   * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
+   * @param listenerId - The unique identifier of the listener to be removed.
+   */
+  removeSubscription(event: string, listenerId: string): void {
+    this.removeSubscriptionOrListener(event, listenerId);
+  }
+
+  /**
+   * Resolves how many payloads of an emitted event are kept as sticky. The option of the emission wins over the
+   * `sticky` global option, which maps event patterns to the number of kept payloads.
+   *
+   * @param sticky - The sticky option of the emission.
+   * @param stickyEvents - The `sticky` global option.
+   * @param event - The emitted event.
+   * @param separator - The global separator applied to the patterns of the global option.
+   * @returns The number of payloads kept, 0 if the event is not sticky.
+   */
+  private resolveStickySize(
+    sticky: boolean | number | undefined,
+    stickyEvents: Record<string, number> = {},
+    event: string,
+    separator: string
+  ): number {
+    if (sticky !== undefined) {
+      return sticky === true ? 1 : Number(sticky);
+    }
+
+    const pattern = Object.keys(stickyEvents).find(key => matchTopic(key, event, separator));
+    return pattern === undefined ? 0 : stickyEvents[pattern];
+  }
+
+  /**
+   * Keeps the payload of a sticky event, dropping the oldest payloads beyond the given size.
+   *
+   * @param event - The emitted event.
+   * @param args - The emitted arguments.
+   * @param size - The number of payloads kept for the event.
+   * @param emissionIds - The identifiers of the emission, reused when the payload is delivered to later listeners.
+   */
+  private storeSticky(event: string, args: unknown[], size: number, emissionIds: EmissionIds): void {
+    if (size < 1) {
+      return;
+    }
+
+    let payloads = this.stickyEvents.get(event);
+    if (!payloads) {
+      payloads = new RingBuffer(size);
+      this.stickyEvents.set(event, payloads);
+    } else if (payloads.maxSize !== size) {
+      payloads.resize(size);
+    }
+
+    payloads.push({ ...emissionIds, args, sequence: this.stickySequence++, timestamp: Date.now() });
+  }
+
+  /**
+   * Delivers the sticky payloads of the events matching a new listener, in the order they were emitted.
+   * The filter, predicate and `maxCalls` of the listener apply, errors are reported without rejecting. A delivery
+   * shares the identifiers of the original emission, so that its history entries belong to that emission.
+   *
+   * @param emitter - The `EventEmitter` instance whose error handling options apply.
+   * @param listenerObject - The new listener object.
+   */
+  private replaySticky(emitter: OptionSource, listenerObject: EventListener): void {
+    const { event, separator } = listenerObject.eventInfo;
+    const payloads: Array<StickyPayload & { topic: string }> = [];
+
+    this.stickyEvents.forEach((buffer, topic) => {
+      if (matchTopic(event, topic, separator)) {
+        buffer.toArray().forEach(payload => payloads.push({ topic, ...payload }));
+      }
+    });
+
+    payloads
+      .sort((a, b) => a.sequence - b.sequence)
+      .forEach(({ topic, args, emitId, parentEmitId, correlationId, timestamp }) => {
+        this.executeMatchingListeners([{ listenerObject }], {
+          event: topic,
+          args,
+          metadata: {},
+          emitId,
+          parentEmitId,
+          correlationId,
+          timestamp,
+          outcome: createOutcome(),
+          reportError: error => this.handleListenerError(emitter, error)
+        }).catch(() => undefined);
+      });
+  }
+
+  /**
+   * Records an event occurrence in the history log, unless recording is disabled for the emitter or the namespace of the event.
+   *
+   * @param event - The name of the event that was emitted, which can include a namespace (e.g., 'namespace.eventName').
+   * @param listenerId - The unique identifier of the listener that was invoked.
+   * @param args - The arguments that were passed to the listener when it was invoked.
+   * @param emissionIds - The unique identifier of the emission, shared by the entries of all listeners it executed,
+   *                      the identifier of the emission which caused it and the identifier of their correlation.
+   * @param error - The error thrown by the listener, if it failed.
+   * @param reason - The reason why the payload is invalid, if it failed its schema.
+   */
+  private recordEventHistory(
+    event: string,
+    listenerId: string,
+    args: unknown[],
+    emissionIds: EmissionIds,
+    error?: Error,
+    reason?: string
+  ): void {
+    if (!this.isHistoryEnabled(event)) {
+      return;
+    }
+
+    const { emitId, parentEmitId, correlationId } = emissionIds;
+
+    this.settleHistoryOperation(this.pruneHistory());
+    this.settleHistoryOperation(
+      this.eventHistory.append({
+        event,
+        listenerId: listenerId,
+        emitId,
+        ...(parentEmitId !== undefined && { parentEmitId }),
+        correlationId,
+        timestamp: Date.now(),
+        args,
+        outcome: reason !== undefined ? 'invalid' : error ? 'error' : 'success',
+        ...(error && { error }),
+        ...(reason !== undefined && { reason })
+      })
+    );
+  }
+
+  /**
+   * Logs the failure of an asynchronous operation of the history store, which has no caller to reject.
+   *
+   * @param operation - The result of the store operation.
+   */
+  private settleHistoryOperation(operation: void | Promise<void>): void {
+    if (isPromiseLike(operation)) {
+      operation.then(undefined, error => console.error('Error in history store:', error));
+    }
+  }
+
+  /**
+   * Warns once per event and action when an event which is not declared in the event catalog, or a deprecated one, is
+   * emitted or subscribed to. Nothing is checked until at least one event is declared, and the reserved `error` event
+   * is never reported.
+   *
+   * @param emitter - The `EventEmitter` instance, used for the global separator and the catalog options.
+   * @param action - Whether the event is emitted or subscribed to.
+   * @param event - The emitted event or subscribed pattern.
+   */
+  private warnCatalog(emitter: OptionSource, action: CatalogAction, event: string): void {
+    if (!this.declaredEvents.size || event === errorEvent) {
+      return;
+    }
+
+    const { separator, catalog = {} } = emitter.getGlobalOptions();
+    const { warnUndeclared = true, warnDeprecated = true, onWarning } = catalog;
+    const declarations = this.getDeclaredEvents();
+    const deprecated = resolveDeclaredEvent(declarations, event, separator)?.deprecated;
+    const verb = action === 'emit' ? 'Emitted' : 'Subscribed to';
+
+    const warning =
+      warnUndeclared && !isDeclaredEvent(declarations, event, separator)
+        ? { type: 'undeclared' as const, message: `${verb} event ${event} which is not declared in the event catalog` }
+        : warnDeprecated && deprecated
+          ? {
+              type: 'deprecated' as const,
+              message: `${verb} deprecated event ${event}${typeof deprecated === 'string' ? `: ${deprecated}` : ''}`
+            }
+          : undefined;
+
+    const key = `${warning?.type}:${action}:${event}`;
+    if (!warning || this.catalogWarnings.has(key)) {
+      return;
+    }
+
+    this.catalogWarnings.add(key);
+    if (onWarning) {
+      onWarning({ ...warning, action, event });
+    } else {
+      console.warn(warning.message);
+    }
+  }
+
+  /**
+   * Validates the arguments of an emission against every schema registered for a pattern matching the event. In the
+   * `reject` mode an invalid payload throws, in the `warn` mode it is passed to the error handler and delivered, and in
+   * the `strip` mode its undeclared properties are removed before it is validated. Invalid payloads are recorded in
+   * the event history with the reasons, under the `validation` listener id.
+   *
+   * @param emitter - The `EventEmitter` instance, used for the global separator and the default validation mode.
+   * @param event - The emitted event.
+   * @param args - The emitted arguments.
+   * @param emissionIds - The identifiers of the emission, recorded with invalid payloads.
+   * @returns The arguments to deliver, without the undeclared properties removed in the `strip` mode.
+   * @throws A `ValidationError` if the payload is invalid and the mode is `reject` or `strip`.
+   */
+  private validatePayload(emitter: OptionSource, event: string, args: unknown[], emissionIds: EmissionIds): unknown[] {
+    const { separator, validation = 'reject' } = emitter.getGlobalOptions();
+    let payload = args;
+
+    for (const { pattern, schema, mode = validation } of this.schemas) {
+      if (!matchTopic(pattern, event, separator)) {
+        continue;
+      }
+
+      if (typeof schema !== 'function' && mode === 'strip') {
+        payload = [stripUnknownProperties(schema, payload[0]), ...payload.slice(1)];
+      }
+
+      const reasons =
+        typeof schema === 'function' ? getValidatorReasons(schema, payload) : validateSchema(schema, payload[0]);
+      if (!reasons.length) {
+        continue;
+      }
+
+      const reason = reasons.join('; ');
+      const error = new ValidationError(`Invalid payload for event ${event}: ${reason}`, reasons);
+      this.recordEventHistory(event, validationListenerId, payload, emissionIds, error, reason);
+
+      if (mode !== 'warn') {
+        throw error;
+      }
+      this.handleListenerError(emitter, { event, listenerId: validationListenerId, error, args: payload }).catch(
+        () => undefined
+      );
+    }
+
+    return payload;
+  }
+
+  /**
+   * Checks whether executions of the event are recorded. The most specific namespace configured for the event
+   * (e.g., 'app.orders' over 'app') decides, otherwise the `enabled` option.
+   *
+   * @param event - The emitted event.
+   * @returns `true` if executions of the event are recorded; otherwise, `false`.
+   */
+  private isHistoryEnabled(event: string): boolean {
+    const { enabled = true, namespaces = {} } = this.historyOption;
+    const segments = event.split(this.historySeparator).slice(0, -1);
+
+    for (let depth = segments.length; depth > 0; depth--) {
+      const namespace = segments.slice(0, depth).join(this.historySeparator);
+      if (namespace in namespaces) {
+        return namespaces[namespace];
+      }
+    }
+
+    return enabled;
+  }
+
+  /**
+   * Drops the history entries older than the `maxAge` option from stores which support pruning.
+   *
+   * @returns The result of the store, a promise for stores pruning asynchronously.
+   */
+  private pruneHistory(): void | Promise<void> {
+    const { maxAge } = this.historyOption;
+    if (maxAge !== undefined) {
+      return this.eventHistory.prune?.(Date.now() - maxAge);
+    }
+  }
+
+  /**
+   * Retrieves the retained history entries of a store reading synchronously, oldest first.
+   *
+   * @returns The entries within the retention limits.
+   * @throws {Error} If the store reads asynchronously, its entries are queried with `fetchHistory`.
+   */
+  private getRetainedHistory(): Array<EventHistory> {
+    this.settleHistoryOperation(this.pruneHistory());
+    const entries = this.eventHistory.read();
+    if (isPromiseLike(entries)) {
+      entries.then(undefined, () => undefined);
+      throw new Error('The history store reads asynchronously, its entries are queried with fetchHistory');
+    }
+
+    return this.retainHistory(entries);
+  }
+
+  /**
+   * Applies the `maxEntries` and `maxAge` options to read history entries, as stores such as append-only files or
+   * databases may keep more entries.
+   *
+   * @param entries - The entries of the store, oldest first.
+   * @returns The entries within the retention limits.
+   */
+  private retainHistory(entries: Array<EventHistory>): Array<EventHistory> {
+    const { maxAge, maxEntries = defaultHistorySize } = this.historyOption;
+    const threshold = maxAge === undefined ? -Infinity : Date.now() - maxAge;
+    const retained = entries.filter(history => history.timestamp >= threshold);
+
+    return maxEntries < 1 ? [] : retained.slice(-maxEntries);
+  }
+
+  /**
+   * Remove a subscription or listener from the ListenerManager.
+   *
+   * @param event - The event name which can include a namespace (e.g., 'namespace.eventName').
+   * @param listenerOrId - The unique identifier of the listener to be removed, or the listener function itself.
+   */
+  private removeSubscriptionOrListener(event: string, listenerOrId: string | Listener): void {
+    const listenerObject = this.findSubscribedListeners(event).find(l =>
+      typeof listenerOrId === 'string' ? l.id === listenerOrId : l.listener === listenerOrId
+    );
+
+    if (listenerObject) {
+      this.detachListener(listenerObject);
+    }
+  }
+
+  /**
+   * Finds the listeners subscribed with exactly the given event or pattern, walking its literal path in each topic trie.
+   *
+   * @param event - The event name or pattern the listeners were added with (e.g., 'namespace.eventName').
+   * @returns The listeners added with the given event or pattern.
+   */
+  private findSubscribedListeners(event: string): EventListener[] {
+    const subscribed: EventListener[] = [];
+
+    this.topicTries.forEach((root, separator) => {
+      const node = this.findNode(root, splitTopic(event, separator));
+      node?.listeners.forEach(listenerObject => {
+        if (listenerObject.eventInfo.event === event) {
+          subscribed.push(listenerObject);
+        }
+      });
+    });
+
+    return subscribed;
+  }
+
+  /**
+   * Finds the listeners whose event or wildcard pattern matches the emitted event, walking each topic trie
+   * with the segments of the event split by the separator of that trie.
+   *
+   * @param event - The emitted event, possibly with a multi-level namespace (e.g., 'app.orders.created').
+   * @returns The matching listeners sorted by priority, higher values first, then in the order they were added.
+   */
+  private findMatchingListeners(event: string): MatchedListener[] {
+    const matched = new Map<EventListener, MatchedListener>();
+
+    const collect = (node: TopicNode, segments: string[], index: number) => {
+      const globstar = node.children.get(defaultGlobstar);
+      if (globstar) {
+        for (let next = index; next <= segments.length; next++) {
+          collect(globstar, segments, next);
+        }
+      }
+
+      if (index === segments.length) {
+        node.listeners.forEach(listenerObject => matched.set(listenerObject, { listenerObject }));
+        return;
+      }
+
+      const literal = node.children.get(segments[index]);
+      if (literal) {
+        collect(literal, segments, index + 1);
+      }
+
+      const wildcard = node.children.get(defaultWildCard);
+      if (wildcard && wildcard !== literal) {
+        collect(wildcard, segments, index + 1);
+      }
+    };
+
+    this.topicTries.forEach((root, separator) => collect(root, event.split(separator), 0));
+
+    return Array.from(matched.values()).sort(
+      ({ listenerObject: a }, { listenerObject: b }) => b.priority - a.priority || (a.sequence ?? 0) - (b.sequence ?? 0)
+    );
+  }
+
+  /**
+   * Walks the literal path of the given segments in a topic trie.
+   *
+   * @param root - The root node of the topic trie.
+   * @param segments - The segments to walk.
+   * @returns The node at the end of the path, or `undefined` if the path does not exist.
+   */
+  private findNode(root: TopicNode, segments: string[]): TopicNode | undefined {
+    let node: TopicNode | undefined = root;
+    for (const segment of segments) {
+      node = node.children.get(segment);
+      if (!node) {
+        break;
+      }
+    }
+
+    return node;
+  }
+
+  /**
+   * Detaches a listener object from its topic trie node, releasing its lifetime resources, dropping its queued calls
+   * and pruning the nodes and trie which are left empty.
+   *
+   * @param listenerObject - The listener object to detach.
+   */
+  private detachListener(listenerObject: EventListener): void {
+    const { event, separator } = listenerObject.eventInfo;
+    const root = this.topicTries.get(separator);
+    if (!root) {
+      return;
+    }
+
+    const segments = splitTopic(event, separator);
+    const path = [root];
+    for (const segment of segments) {
+      const child = path[path.length - 1].children.get(segment);
+      if (!child) {
+        return;
+      }
+      path.push(child);
+    }
+
+    const listeners = path[path.length - 1].listeners;
+    const index = listeners.indexOf(listenerObject);
+
+    if (index !== -1) {
+      listeners.splice(index, 1);
+      listenerObject.dispose?.();
+      listenerObject.controller?.cancel();
+      const queuedCalls = this.listenerQueues.get(listenerObject.id)?.toArray() ?? [];
+      this.listenerQueues.delete(listenerObject.id);
+      queuedCalls.forEach(this.dropQueuedCall);
+
+      for (let depth = segments.length; depth > 0; depth--) {
+        const node = path[depth];
+        if (node.listeners.length || node.children.size) {
+          break;
+        }
+        path[depth - 1].children.delete(segments[depth - 1]);
+      }
+
+      if (!root.listeners.length && !root.children.size) {
+        this.topicTries.delete(separator);
+      }
+    }
+  }
+
+  /**
+   * Creates the subscription handed out for a listener, whose `flush` and `cancel` do nothing unless the listener
+   * is throttled or debounced.
+   *
+   * @param id - The ID of the listener.
+   * @param controller - The controller of a throttled or debounced listener.
+   * @returns The subscription of the listener.
+   */
+  private createSubscription(id: string, controller?: ListenerController): Subscription {
+    return {
+      id,
+      flush: async () => {
+        await controller?.flush();
+      },
+      cancel: () => controller?.cancel()
+    };
+  }
+
+  /**
+   * Creates the event context passed to a listener added with the `context` option. The contexts of all listeners
+   * of an emission share its outcome, so stopping the propagation or preventing the default is seen by the emitter.
+   *
+   * @param listenerObject - The listener object receiving the context.
+   * @param emission - The emitted event, its emit id, timestamp, source and outcome.
+   * @returns The event context of the listener.
+   */
+  private createEventContext(
+    listenerObject: EventListener,
+    emission: Pick<Emission, 'event' | 'emitId' | 'parentEmitId' | 'correlationId' | 'timestamp' | 'source' | 'outcome'>
+  ): EventContext {
+    const { event, emitId, parentEmitId, correlationId, timestamp, source, outcome } = emission;
+    const { eventInfo } = listenerObject;
+    const [namespace, eventName] = parseEvent(event, eventInfo.separator);
+
+    return {
+      event,
+      eventName,
+      namespace,
+      pattern: eventInfo.event,
+      emitId,
+      ...(parentEmitId !== undefined && { parentEmitId }),
+      correlationId,
+      timestamp,
+      ...(source !== undefined && { source }),
+      get propagationStopped() {
+        return outcome.propagationStopped;
+      },
+      get defaultPrevented() {
+        return outcome.defaultPrevented;
+      },
+      stopPropagation: () => {
+        outcome.propagationStopped = true;
+      },
+      preventDefault: () => {
+        outcome.defaultPrevented = true;
+      }
+    };
+  }
+
+  /**
+   * Binds the TTL timer and abort signal of a listener, both detaching the listener once triggered.
+   *
+   * @param listenerObject - The listener object whose lifetime is bound.
+   * @param ttl - Time in milliseconds after which the listener is detached.
+   * @param signal - Signal which detaches the listener once aborted.
+   */
+  private bindLifetime(listenerObject: EventListener, ttl: number | undefined, signal: AbortSignal | undefined): void {
+    const disposers: Array<() => void> = [];
+    const detach = () => this.detachListener(listenerObject);
+
+    if (ttl !== undefined) {
+      const timeout = setTimeout(detach, ttl);
+      timeout.unref?.();
+      disposers.push(() => clearTimeout(timeout));
+    }
+
+    if (signal) {
+      signal.addEventListener('abort', detach, { once: true });
+      disposers.push(() => signal.removeEventListener('abort', detach));
+    }
+
+    if (disposers.length) {
+      listenerObject.dispose = () => disposers.forEach(dispose => dispose());
+    }
+  }
+
+  /**
+   * Checks the filter of a listener, parsing the event with the separator of that listener.
+   *
+   * @param listenerObject - The listener object whose filter is checked.
+   * @param event - The emitted event.
+   * @returns `true` if the listener has no filter or its filter passes; otherwise, `false`.
+   */
+  private passesFilter(listenerObject: EventListener, event: string): boolean {
+    if (!listenerObject.filter) {
+      return true;
+    }
+
+    const [namespace, eventName] = parseEvent(event, listenerObject.eventInfo.separator);
+    return listenerObject.filter(eventName, namespace);
+  }
+
+  /**
+   * Checks the predicate of a listener against the emitted arguments. A function predicate receives the event context
+   * and the arguments, a declarative matcher is matched against the first argument.
+   *
+   * @param listenerObject - The listener object whose predicate is checked.
+   * @param event - The emitted event.
+   * @param args - The emitted arguments.
+   * @returns `true` if the listener has no predicate or its predicate passes; otherwise, `false`.
+   * @throws The error thrown by a predicate function.
+   */
+  private passesPredicate(listenerObject: EventListener, event: string, args: unknown[]): boolean {
+    const { predicate, eventInfo } = listenerObject;
+    if (!predicate) {
+      return true;
+    }
+
+    const [namespace, eventName] = parseEvent(event, eventInfo.separator);
+
+    return typeof predicate === 'function'
+      ? predicate({ event, eventName, namespace, pattern: eventInfo.event }, ...args)
+      : matchesPayload(predicate, args[0]);
+  }
+
+  /**
+   * Checks the filter and predicate of a listener without executing it, a predicate which throws is treated as failing.
+   *
+   * @param listenerObject - The listener object which is checked.
+   * @param event - The emitted event.
+   * @param args - The emitted arguments.
+   * @returns `true` if an emission of the event would execute the listener; otherwise, `false`.
+   */
+  private wouldExecute(listenerObject: EventListener, event: string, args: unknown[]): boolean {
+    try {
+      return this.passesFilter(listenerObject, event) && this.passesPredicate(listenerObject, event, args);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Counts a call towards the `maxCalls` limit of a listener, detaching the listener once the limit is reached.
+   *
+   * @param listenerObject - The listener object being called.
+   * @returns `false` if the listener has already used up its calls; otherwise, `true`.
+   */
+  private consumeCall(listenerObject: EventListener): boolean {
+    if (listenerObject.maxCalls === undefined) {
+      return true;
+    }
+
+    const calls = listenerObject.calls ?? 0;
+    if (calls >= listenerObject.maxCalls) {
+      return false;
+    }
+
+    listenerObject.calls = calls + 1;
+    if (listenerObject.calls >= listenerObject.maxCalls) {
+      this.detachListener(listenerObject);
+    }
+
+    return true;
+  }
+
+  /**
+   * Executes the listeners matching the emitted event.
+   * @param matchedListeners - The listeners matching the event, in priority order.
+   * @param emission - The emitted event, its arguments and metadata, the targeted listeners, whether exactly one
+   *                   listener must execute, whether every listener is awaited before the next one starts, and the
+   *                   reporter of errors thrown by predicates and listeners, a throwing predicate skips its listener.
+   * @returns A promise that resolves with the results of the executed listeners, in priority order, once all matching
+   *          listeners have been executed. Dropped, deferred and skipped calls have no result.
+   * @throws {InvocationError} If the emission is exclusive and not exactly one listener would execute.
+   */
+  private async executeMatchingListeners(
+    matchedListeners: MatchedListener[],
+    emission: Emission
+  ): Promise<ListenerResult[]> {
+    const { event, args, reportError, targetListeners, exclusive, sequential } = emission;
+    const isTargeted = (id: string) => !targetListeners || targetListeners.includes(id);
+    const resultPromises: Array<Promise<ListenerResult | undefined>> = [];
+
+    if (exclusive) {
+      const listenerCount = matchedListeners.filter(
+        ({ listenerObject }) =>
+          !listenerObject.internal && isTargeted(listenerObject.id) && this.wouldExecute(listenerObject, event, args)
+      ).length;
+
+      if (listenerCount !== 1) {
+        throw new InvocationError(
+          listenerCount
+            ? `${listenerCount} listeners matched event ${event}, expected exactly one`
+            : `No listener matched event ${event}`
+        );
+      }
+    }
+
+    for (const { listenerObject } of matchedListeners) {
+      const { id, eventInfo } = listenerObject;
+      if (emission.outcome.propagationStopped) {
+        break;
+      }
+
+      if (!isTargeted(id) || !this.passesFilter(listenerObject, event)) {
+        continue;
+      }
+
+      let passesPredicate: boolean;
+      try {
+        passesPredicate = this.passesPredicate(listenerObject, event, args);
+      } catch (error) {
+        const listenerError = { event, listenerId: id, error: error as Error, args };
+        const resultPromise = reportError(listenerError).then(() => ({ listenerId: id, error: error as Error }));
+        resultPromises.push(sequential ? Promise.resolve(await resultPromise) : resultPromise);
+        continue;
+      }
+
+      if (passesPredicate && this.consumeCall(listenerObject)) {
+        const [, eventName] = parseEvent(event, eventInfo.separator);
+        const processing = this.processListener(listenerObject, eventName, emission);
+        const resultPromise = listenerObject.internal ? processing.then(() => undefined) : processing;
+        resultPromises.push(sequential ? Promise.resolve(await resultPromise) : resultPromise);
+      }
+    }
+
+    const results = await Promise.all(resultPromises);
+    return results.filter((result): result is ListenerResult => result !== undefined);
+  }
+
+  /**
+   * Executes a listener with concurrency control and handles queuing if the concurrency limit is reached.
+   *
+   * @param listenerObject - The listener object to execute, its listener is either throttled or async.
+   * @param eventName - The name of the event being emitted, passed to the listener.
+   * @param emission - The full event being emitted, recorded in the event history, its arguments and metadata,
+   *                   and the reporter of an error thrown by the listener.
+   * @returns A promise that resolves with the value returned or the error thrown by the listener, or `undefined` if
+   *          the call was dropped from the queue, skipped by a middleware, dropped by throttling or deferred by
+   *          debouncing. A queued call settles once it has been executed.
+   */
+  private processListener = async (
+    listenerObject: EventListener,
+    eventName: string,
+    emission: Emission
+  ): Promise<ListenerResult | undefined> => {
+    const { id, concurrency } = listenerObject;
+    const executingCount = this.executingListeners[id] || 0;
+    let result: ListenerResult | undefined;
+    if (executingCount < concurrency) {
+      this.executingListeners[id] = executingCount + 1;
+      try {
+        result = await this.executeAttempts(listenerObject, eventName, emission);
+      } finally {
+        this.executingListeners[id]--;
+        this.dequeueNextListener(id);
+      }
+    } else {
+      result = await this.enqueueListener(listenerObject, eventName, emission);
+    }
+
+    return result;
+  };
+
+  /**
+   * Adds a call to the FIFO queue of a listener which reached its concurrency limit. Once the queue holds
+   * `maxQueueSize` calls, the overflow policy drops the oldest queued call (`drop-oldest`, default), drops the new
+   * call (`drop-newest`) or fails the new call with a `QueueFullError` reported like a listener error (`reject`).
+   *
+   * @param listenerObject - The listener object to execute.
+   * @param eventName - The name of the event being emitted, passed to the listener.
+   * @param emission - The full event being emitted.
+   * @returns A promise that resolves with the result of the call once it has been executed, or `undefined` if it
+   *          was dropped.
+   */
+  private enqueueListener(
+    listenerObject: EventListener,
+    eventName: string,
+    emission: Emission
+  ): Promise<ListenerResult | undefined> {
+    const { id, maxQueueSize = Infinity, queueOverflow = 'drop-oldest' } = listenerObject;
+    const queue = this.listenerQueues.get(id) ?? new RingBuffer<QueuedCall>(Infinity);
+    this.listenerQueues.set(id, queue);
+
+    if (queue.size >= maxQueueSize) {
+      switch (queueOverflow) {
+        case 'drop-oldest': {
+          const oldestCall = queue.shift();
+          if (oldestCall) {
+            this.dropQueuedCall(oldestCall);
+          }
+          if (maxQueueSize < 1) {
+            emission.outcome.droppedListeners.push(id);
+            return Promise.resolve(undefined);
+          }
+          break;
+        }
+        case 'drop-newest':
+          emission.outcome.droppedListeners.push(id);
+          return Promise.resolve(undefined);
+        case 'reject': {
+          const { event, args, reportError } = emission;
+          const error = new QueueFullError(`The queue of listener ${id} exceeded ${maxQueueSize} calls`);
+          return reportError({ event, listenerId: id, error, args }).then(() => ({ listenerId: id, error }));
+        }
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      queue.push({ listenerObject, eventName, emission, enqueuedAt: Date.now(), resolve, reject });
+    });
+  }
+
+  /**
+   * Settles a queued call without executing it, adding its listener to the dropped listeners of its emission.
+   *
+   * @param queuedCall - The queued call to drop.
+   */
+  private dropQueuedCall = ({ listenerObject, emission, resolve }: QueuedCall): void => {
+    emission.outcome.droppedListeners.push(listenerObject.id);
+    resolve(undefined);
+  };
+
+  /**
+   * Measures the queue of calls waiting for a listener to fall below its concurrency limit.
+   *
+   * @param id - The ID of the listener.
+   * @returns The number of queued calls and the time in milliseconds the oldest queued call has been waiting.
+   */
+  private inspectQueue(id: string): { queueDepth: number; queueWaitTime: number } {
+    const queue = this.listenerQueues.get(id);
+    const oldestCall = queue?.peek();
+
+    return {
+      queueDepth: queue?.size ?? 0,
+      queueWaitTime: oldestCall ? Date.now() - oldestCall.enqueuedAt : 0
+    };
+  }
+
+  /**
+   * Finds the semaphores limiting the listener executions of an event, those of its enclosing namespaces from the
+   * outermost one and then the emitter-wide one, so that slots are always acquired in the same order.
+   *
+   * @param event - The emitted event.
+   * @returns The semaphores whose slots a listener execution has to hold.
+   */
+  private findSemaphores(event: string): Semaphore[] {
+    const semaphores: Semaphore[] = [];
+
+    if (this.namespaceSemaphores.size) {
+      const segments = event.split(this.concurrencySeparator).slice(0, -1);
+      for (let depth = 1; depth <= segments.length; depth++) {
+        const semaphore = this.namespaceSemaphores.get(segments.slice(0, depth).join(this.concurrencySeparator));
+        if (semaphore) {
+          semaphores.push(semaphore);
+        }
+      }
+    }
+
+    if (this.globalSemaphore) {
+      semaphores.push(this.globalSemaphore);
+    }
+
+    return semaphores;
+  }
+
+  /**
+   * Calls a listener function while holding a slot of every semaphore limiting the executions of the event. Slots still
+   * held by the listener call whose emission made this one are not acquired again, so that a listener awaiting an emit
+   * does not wait for its own slots.
+   *
+   * @param event - The emitted event.
+   * @param emissionIds - The emit id and correlation id of the emission, the scope of the listener call.
+   * @param call - Calls the listener function.
+   * @returns The value of the listener, or a promise that resolves with it once its slots are released if slots
+   *          were acquired.
+   */
+  private runInSlots(
+    event: string,
+    { emitId, correlationId }: Pick<EmissionIds, 'emitId' | 'correlationId'>,
+    call: () => unknown
+  ): unknown {
+    const inheritedSlots = emissionScope.getStore()?.heldSlots ?? new Set<Semaphore>();
+    const semaphores = this.findSemaphores(event).filter(semaphore => !inheritedSlots.has(semaphore));
+    if (!semaphores.length) {
+      return emissionScope.run({ emitId, correlationId, heldSlots: inheritedSlots }, call);
+    }
+
+    const heldSlots = new Set([...inheritedSlots, ...semaphores]);
+    const acquiringSlots = this.acquireSlots(semaphores);
+    return (async () => {
+      if (acquiringSlots) {
+        await acquiringSlots;
+      }
+
+      try {
+        return await emissionScope.run({ emitId, correlationId, heldSlots }, call);
+      } finally {
+        heldSlots.clear();
+        semaphores.forEach(semaphore => semaphore.release());
+      }
+    })();
+  }
+
+  /**
+   * Acquires a slot of every semaphore, synchronously while slots are free so that listeners start right away.
+   *
+   * @param semaphores - The semaphores to acquire, in order.
+   * @returns A promise that resolves once all slots are acquired, or `undefined` if they were acquired synchronously.
+   */
+  private acquireSlots(semaphores: Semaphore[]): Promise<void> | undefined {
+    const blockedIndex = semaphores.findIndex(semaphore => !semaphore.tryAcquire());
+    if (blockedIndex === -1) {
+      return undefined;
+    }
+
+    this.waitingExecutions++;
+
+    return (async () => {
+      for (const semaphore of semaphores.slice(blockedIndex)) {
+        await semaphore.acquire();
+      }
+
+      this.waitingExecutions--;
+      this.notifyCapacity();
+    })();
+  }
+
+  /**
+   * Applies backpressure once the listener executions waiting for capacity have reached the high-water mark.
+   *
+   * @returns A promise that resolves once fewer executions are waiting, or `undefined` if the emission can proceed.
+   * @throws {QueueFullError} If the high-water mark is reached and the backpressure policy is `reject`.
+   */
+  private waitForCapacity(): Promise<void> | undefined {
+    const { highWaterMark, backpressure } = this.concurrencyOption;
+    if (highWaterMark === undefined || this.waitingExecutions < highWaterMark) {
+      return undefined;
+    }
+
+    if (backpressure === 'reject') {
+      throw new QueueFullError(
+        `${this.waitingExecutions} listener executions are waiting for capacity, the high-water mark is ${highWaterMark}`
+      );
+    }
+
+    return new Promise<void>(resolve => this.capacityWaiters.push(resolve)).then(() => this.waitForCapacity());
+  }
+
+  /**
+   * Wakes up the emissions waiting for capacity, which check the high-water mark again.
+   */
+  private notifyCapacity(): void {
+    this.capacityWaiters.splice(0).forEach(resolve => resolve());
+  }
+
+  /**
+   * Changes the limit of a semaphore, creating it if needed. A removed limit grants every waiting acquisition.
+   *
+   * @param semaphore - The semaphore to change, if it exists.
+   * @param limit - The new limit, or `undefined` for no limit.
+   * @returns The semaphore with the new limit, or `undefined` if there is no limit.
+   */
+  private resizeSemaphore(semaphore: Semaphore | undefined, limit: number | undefined): Semaphore | undefined {
+    if (limit === undefined) {
+      semaphore?.resize(Infinity);
+      return undefined;
+    }
+
+    if (!semaphore) {
+      return new Semaphore(limit);
+    }
+
+    semaphore.resize(limit);
+    return semaphore;
+  }
+
+  /**
+   * Calls a listener until it succeeds or its retry attempts are used up, waiting for the backoff delay in between.
+   * The listener middlewares run around every attempt and may rewrite its arguments or skip it. Every failed attempt
+   * is recorded in the event history, the last error is reported and, if the listener has a retry option, the call
+   * is added to the dead-letter queue. Throttling and debouncing only apply to the first attempt, retries call the
+   * listener function directly so that they cannot be dropped.
+   *
+   * @param listenerObject - The listener object to call.
+   * @param eventName - The name of the event being emitted, passed to the listener unless it receives the event context.
+   * @param emission - The full event being emitted.
+   * @param deadLetterId - Optional. The id of the dead letter being redriven, every attempt then calls the listener
+   *                     function directly and a failed call updates the dead letter instead of adding a new one.
+   * @returns A promise that resolves with the value returned or the last error thrown by the listener, or `undefined`
+   *          if the call was skipped, dropped or deferred.
+   */
+  private async executeAttempts(
+    listenerObject: EventListener,
+    eventName: string,
+    emission: Emission,
+    deadLetterId?: string
+  ): Promise<ListenerResult | undefined> {
+    const { listener, rateLimit, id, retry } = listenerObject;
+    const { event, args, metadata, emitId, correlationId, reportError } = emission;
+    const eventArg = listenerObject.context ? this.createEventContext(listenerObject, emission) : eventName;
+
+    for (let attempt = 1; ; attempt++) {
+      const context: ListenerContext = { event, eventName, listenerId: id, args: [...args], metadata };
+      try {
+        let result: ListenerResult | undefined;
+        await runMiddleware([...this.listenerMiddlewares], context, async () => {
+          const invoke = () =>
+            this.runInSlots(event, { emitId, correlationId }, () =>
+              (listener as (...listenerArgs: unknown[]) => unknown)(eventArg, ...context.args)
+            );
+          const value = await (rateLimit && attempt === 1 && deadLetterId === undefined ? rateLimit(invoke) : invoke());
+
+          if (value !== skippedCall) {
+            result = { listenerId: id, value };
+            this.recordEventHistory(event, id, context.args, emission);
+          }
+        });
+
+        return result;
+      } catch (error) {
+        this.recordEventHistory(event, id, context.args, emission, error as Error);
+
+        if (retry && attempt < retry.attempts) {
+          await delay(getRetryDelay(retry, attempt));
+          continue;
+        }
+
+        if (retry) {
+          const letterId = deadLetterId ?? uuidv4();
+          this.deadLetters.set(letterId, {
+            id: letterId,
+            event,
+            listenerId: id,
+            args: context.args,
+            error: error as Error,
+            attempts: attempt,
+            timestamp: Date.now()
+          });
+        }
+
+        await reportError({ event, listenerId: id, error: error as Error, args: context.args });
+        return { listenerId: id, error: error as Error };
+      }
+    }
+  }
+
+  /**
+   * Dequeues the oldest queued call of a listener and processes it, settling the promise of the queued call
+   * with its result. The queue is removed once it is empty.
+   *
+   * @param id - The ID of the listener whose next call is dequeued.
+   */
+  private dequeueNextListener(id: string): void {
+    const queue = this.listenerQueues.get(id);
+    const nextCall = queue?.shift();
+    if (!queue || !nextCall) {
+      return;
+    }
+
+    if (!queue.size) {
+      this.listenerQueues.delete(id);
+    }
+
+    const { listenerObject, eventName, emission, resolve, reject } = nextCall;
+    this.processListener(listenerObject, eventName, emission).then(resolve, reject);
+  }
+
+  /**
+   * Handles errors that occur during the execution of a listener. The error is passed to the `onError` handler of the
+   * emitter and delivered to the listeners of the reserved `error` event, errors are only logged to the console when
+   * neither of them exists. Errors of `error` listeners are not delivered again to avoid loops.
+   * @param emitter - The `EventEmitter` instance whose `onError` handler is called.
+   * @param listenerError - The event, listener id, error and arguments of the failed execution.
+   */
+  private async handleListenerError(emitter: OptionSource, listenerError: ListenerErrorEvent): Promise<void> {
+    const { onError } = emitter.getGlobalOptions();
+    const errorListeners =
+      listenerError.event === errorEvent
+        ? []
+        : this.findMatchingListeners(errorEvent).filter(
+            ({ listenerObject }) => listenerObject.eventInfo.event === errorEvent
+          );
+
+    if (!onError && !errorListeners.length) {
+      console.error(`Error in listener for event ${listenerError.event}:`, listenerError.error);
+      console.error(listenerError.error.stack);
+      return;
+    }
+
+    if (onError) {
+      try {
+        await onError(listenerError);
+      } catch (error) {
+        console.error(`Error in onError handler for event ${listenerError.event}:`, error);
+      }
+    }
+
+    await this.executeMatchingListeners(errorListeners, {
+      event: errorEvent,
+      args: [listenerError],
+      metadata: {},
+      ...createEmissionIds(),
+      timestamp: Date.now(),
+      outcome: createOutcome(),
+      reportError: error => this.handleListenerError(emitter, error)
+    });
+  }
+
+  /**
+   * Creates a throttle of the invocations of a listener, running at most one within each time window. A call on the
+   * leading edge of a window runs right away, the last call made within a window runs on its trailing edge and settles
+   * the calls it replaced once it has run.
+   * @param option - The throttle options.
+   * @param option.wait - The time (in milliseconds) of a window.
+   * @param option.leading - Whether a call opening a window runs right away. Default is `true`.
+   * @param option.trailing - Whether the last call made within a window runs at its end. Default is `false`.
+   * @returns The throttle, resolving with the value of the listener or a marker if the call was dropped, and its
+   *          controller.
+   */
+  private throttle({ wait, leading = true, trailing = false }: ThrottleOption): RateLimitedListener {
+    const pendingCall = new PendingCall();
+    let lastCallTime: number | undefined;
+    let timeout: NodeJS.Timeout | undefined;
+
+    const runTrailing = async () => {
+      clearTimeout(timeout);
+      timeout = undefined;
+      if (pendingCall.isPending) {
+        lastCallTime = Date.now();
+        await pendingCall.run();
+      }
+    };
+
+    const rateLimit = async (invoke: () => unknown): Promise<unknown> => {
+      const now = Date.now();
+      if (!timeout && (lastCallTime === undefined || now - lastCallTime >= wait)) {
+        lastCallTime = now;
+        if (leading) {
+          return await invoke();
+        }
+      }
+
+      if (!trailing) {
+        return skippedCall;
+      }
+
+      timeout ??= setTimeout(runTrailing, Math.max(0, (lastCallTime as number) + wait - now));
+      return pendingCall.defer(invoke);
+    };
+
+    const cancel = () => {
+      clearTimeout(timeout);
+      timeout = undefined;
+      pendingCall.cancel();
+    };
+
+    return { rateLimit, controller: { flush: runTrailing, cancel } };
+  }
+
+  /**
+   * Creates a debounce of the invocations of a listener, running the last invocation once the calls have paused for
+   * the wait time. The calls it replaced settle once it has run.
+   * @param option - The debounce options.
+   * @param option.wait - The time (in milliseconds) without calls after which the listener is called.
+   * @param option.maxWait - The maximum time (in milliseconds) a call is delayed by later calls. Default is unlimited.
+   * @param option.leading - Whether the first call of a series runs right away. Default is `false`.
+   * @returns The debounce, resolving with the value of the listener or a marker if the call was replaced, and its
+   *          controller.
+   */
+  private debounce({ wait, maxWait, leading = false }: DebounceOption): RateLimitedListener {
+    const pendingCall = new PendingCall();
+    let seriesStartTime: number | undefined;
+    let timeout: NodeJS.Timeout | undefined;
+
+    const runTrailing = async () => {
+      clearTimeout(timeout);
+      timeout = undefined;
+      seriesStartTime = undefined;
+      await pendingCall.run();
+    };
+
+    const rateLimit = async (invoke: () => unknown): Promise<unknown> => {
+      const now = Date.now();
+      const isIdle = !timeout;
+      seriesStartTime ??= now;
+
+      clearTimeout(timeout);
+      const delay = maxWait === undefined ? wait : Math.min(wait, seriesStartTime + maxWait - now);
+      timeout = setTimeout(runTrailing, Math.max(0, delay));
+
+      if (isIdle && leading) {
+        return await invoke();
+      }
+
+      return pendingCall.defer(invoke);
+    };
+
+    const cancel = () => {
+      clearTimeout(timeout);
+      timeout = undefined;
+      seriesStartTime = undefined;
+      pendingCall.cancel();
+    };
+
+    return { rateLimit, controller: { flush: runTrailing, cancel } };
   }
 }
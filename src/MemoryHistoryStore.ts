@@ -0,0 +1,60 @@
+import { BufferedHistoryStore } from './BufferedHistoryStore';
+import { defaultHistorySize } from './Constants';
+import { EventHistory, MemoryHistoryStoreOption } from './Interfaces';
+import { RingBuffer } from './RingBuffer';
+
+/**
+ * History store keeping the newest entries in memory.
+ */
+export class MemoryHistoryStore extends BufferedHistoryStore {
+  private readonly entries: RingBuffer<EventHistory>;
+
+  /**
+   * Creates an instance of MemoryHistoryStore.
+   * @param option - Options for the store.
+   * @param option.maxEntries - Maximum number of entries kept, the oldest entries are dropped first (default is 1000).
+   * @param option.flushInterval - Time in milliseconds appended entries are buffered before they are written (default is 0).
+   * @param option.serializer - A function converting the arguments of appended entries, e.g. to snapshot mutable payloads.
+   */
+  constructor({ maxEntries, ...option }: MemoryHistoryStoreOption = {}) {
+    super(option);
+    this.entries = new RingBuffer(maxEntries ?? defaultHistorySize);
+  }
+
+  /**
+   * Maximum number of entries kept in the store.
+   */
+  get maxEntries(): number {
+    return this.entries.maxSize;
+  }
+
+  /**
+   * Changes the maximum number of entries, keeping the newest entries which fit.
+   * @param maxEntries - The new maximum number of entries.
+   */
+  resize(maxEntries: number): void {
+    this.entries.resize(maxEntries);
+  }
+
+  /**
+   * Drops the written entries recorded before the given timestamp.
+   * @param before - The timestamp, older entries are dropped.
+   */
+  prune(before: number): void {
+    while ((this.entries.peek()?.timestamp ?? Infinity) < before) {
+      this.entries.shift();
+    }
+  }
+
+  protected writeEntries(entries: EventHistory[]): void {
+    entries.forEach(entry => this.entries.push(entry));
+  }
+
+  protected readEntries(): EventHistory[] {
+    return this.entries.toArray();
+  }
+
+  protected clearEntries(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Fixed capacity FIFO buffer which overwrites its oldest item once full. Storage grows on demand up to the capacity.
+ */
+export class RingBuffer<T> {
+  private items: Array<T | undefined> = [];
+  private head = 0;
+  private count = 0;
+
+  /**
+   * Creates an instance of RingBuffer.
+   * @param capacity - Maximum number of items kept, `Infinity` keeps every item.
+   */
+  constructor(private capacity: number) {}
+
+  /**
+   * Number of items in the buffer.
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Maximum number of items kept in the buffer.
+   */
+  get maxSize(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Appends an item, overwriting the oldest item if the buffer is full.
+   * @param item - The item to append.
+   */
+  push(item: T): void {
+    if (this.capacity < 1) {
+      return;
+    }
+
+    if (this.count === this.capacity) {
+      this.items[this.head] = item;
+      this.head = (this.head + 1) % this.items.length;
+      return;
+    }
+
+    if (this.count === this.items.length) {
+      this.grow();
+    }
+
+    this.items[(this.head + this.count) % this.items.length] = item;
+    this.count++;
+  }
+
+  /**
+   * Returns the oldest item without removing it.
+   * @returns The oldest item, or `undefined` if the buffer is empty.
+   */
+  peek(): T | undefined {
+    return this.count ? this.items[this.head] : undefined;
+  }
+
+  /**
+   * Removes and returns the oldest item.
+   * @returns The oldest item, or `undefined` if the buffer is empty.
+   */
+  shift(): T | undefined {
+    if (!this.count) {
+      return undefined;
+    }
+
+    const item = this.items[this.head];
+    this.items[this.head] = undefined;
+    this.head = (this.head + 1) % this.items.length;
+    this.count--;
+
+    return item;
+  }
+
+  /**
+   * Changes the capacity of the buffer, keeping the newest items which fit.
+   * @param capacity - The new maximum number of items.
+   */
+  resize(capacity: number): void {
+    const items = capacity < 1 ? [] : this.toArray().slice(-capacity);
+
+    this.capacity = capacity;
+    this.items = items;
+    this.head = 0;
+    this.count = items.length;
+  }
+
+  /**
+   * Removes every item from the buffer.
+   */
+  clear(): void {
+    this.items = [];
+    this.head = 0;
+    this.count = 0;
+  }
+
+  /**
+   * Copies the items of the buffer, oldest first.
+   * @returns An array of the items.
+   */
+  toArray(): T[] {
+    return Array.from({ length: this.count }, (_, index) => this.items[(this.head + index) % this.items.length] as T);
+  }
+
+  /**
+   * Doubles the storage, bounded by the capacity, and moves the items to its start.
+   */
+  private grow(): void {
+    const items: Array<T | undefined> = this.toArray();
+    items.length = Math.min(this.capacity, Math.max(4, this.items.length * 2));
+
+    this.items = items;
+    this.head = 0;
+  }
+}
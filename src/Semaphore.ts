@@ -0,0 +1,81 @@
+import { RingBuffer } from './RingBuffer';
+
+/**
+ * Counting semaphore granting a limited number of slots, waiting acquisitions are granted in FIFO order.
+ */
+export class Semaphore {
+  private activeCount = 0;
+  private readonly waiters = new RingBuffer<() => void>(Infinity);
+
+  /**
+   * Creates an instance of Semaphore.
+   * @param limit - Maximum number of slots held at the same time.
+   */
+  constructor(private limit: number) {}
+
+  /**
+   * Number of slots currently held.
+   */
+  get active(): number {
+    return this.activeCount;
+  }
+
+  /**
+   * Number of acquisitions waiting for a slot.
+   */
+  get pending(): number {
+    return this.waiters.size;
+  }
+
+  /**
+   * Acquires a slot if one is free and nobody is waiting for one.
+   * @returns `true` if a slot was acquired; otherwise, `false`.
+   */
+  tryAcquire(): boolean {
+    if (this.activeCount >= this.limit || this.waiters.size) {
+      return false;
+    }
+
+    this.activeCount++;
+    return true;
+  }
+
+  /**
+   * Acquires a slot, waiting behind earlier acquisitions if none is free.
+   * @returns A promise that resolves once the slot is acquired.
+   */
+  acquire(): Promise<void> {
+    if (this.tryAcquire()) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  /**
+   * Releases a slot, granting it to the oldest waiting acquisition.
+   */
+  release(): void {
+    this.activeCount--;
+    this.grantWaiting();
+  }
+
+  /**
+   * Changes the number of slots, a higher limit grants slots to waiting acquisitions right away.
+   * @param limit - The new maximum number of slots.
+   */
+  resize(limit: number): void {
+    this.limit = limit;
+    this.grantWaiting();
+  }
+
+  /**
+   * Grants free slots to the waiting acquisitions, oldest first.
+   */
+  private grantWaiting(): void {
+    while (this.activeCount < this.limit && this.waiters.size) {
+      this.activeCount++;
+      (this.waiters.shift() as () => void)();
+    }
+  }
+}
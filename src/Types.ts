@@ -1,4 +1,98 @@
-export type Listener = (eventName: string, ...args: any[]) => void;
+import { EmitContext, EventContext, ListenerContext, PredicateContext } from './Interfaces';
+
+export type Listener<TArgs extends unknown[] = any[]> = (eventName: string, ...args: TArgs) => void;
 export type EventFilter = (eventName: string, namespace: string) => boolean;
-export type ThrottledListener = (eventName: string, ...args: any[]) => void;
-export type AsyncListener = (eventName: string, ...args: any[]) => Promise<void>;
+export type ThrottledListener<TArgs extends unknown[] = any[]> = (eventName: string, ...args: TArgs) => void;
+export type AsyncListener<TArgs extends unknown[] = any[]> = (eventName: string, ...args: TArgs) => Promise<void>;
+export type ContextListener<TArgs extends unknown[] = any[]> = (context: EventContext, ...args: TArgs) => void;
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error';
+export type QueueOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'reject';
+export type ErrorPolicy = 'swallow' | 'fail-fast' | 'aggregate';
+export type BackoffStrategy = 'fixed' | 'exponential';
+export type BackpressurePolicy = 'wait' | 'reject';
+export type ExecutionMode = 'parallel' | 'sequential';
+export type ValidationMode = 'reject' | 'warn' | 'strip';
+export type CatalogAction = 'emit' | 'subscribe';
+export type CatalogWarningType = 'undeclared' | 'deprecated';
+export type AsyncAPIVersion = '2.6.0' | '3.0.0';
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+export type HistoryOutcome = 'success' | 'error' | 'invalid';
+export type HistorySerializer = (args: unknown[]) => unknown[];
+export type Middleware<TContext> = (context: TContext, next: () => Promise<void>) => void | Promise<void>;
+export type EmitMiddleware = Middleware<EmitContext>;
+export type ListenerMiddleware = Middleware<ListenerContext>;
+export type ListenerPredicate<TArgs extends unknown[] = any[]> = (context: PredicateContext, ...args: TArgs) => boolean;
+
+/**
+ * Declarative partial match on the first emitted argument. Nested objects are matched partially and
+ * values can be operator objects: `$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`, `$in`, `$nin` and `$exists`.
+ */
+export type PayloadMatcher = { [key: string]: unknown };
+
+/**
+ * Validates the arguments of an emitted event. Returns `true` if they are valid, otherwise `false` or the reason why
+ * they are invalid.
+ */
+export type PayloadValidator<TArgs extends unknown[] = any[]> = (...args: TArgs) => boolean | string;
+
+/**
+ * Maps event names (possibly namespaced, e.g. 'orders.created') to the tuple of arguments emitted with them.
+ */
+export type EventMap = Record<string, unknown[]>;
+export type DefaultEventMap = Record<string, any[]>;
+export type EventKey<TEvents extends EventMap> = keyof TEvents & string;
+export type EventArgs<TEvents extends EventMap> = TEvents[EventKey<TEvents>];
+
+type SplitTopic<TTopic extends string> = TTopic extends `${infer Head}.${infer Tail}`
+  ? [Head, ...SplitTopic<Tail>]
+  : [TTopic];
+
+type MatchSegments<TKey extends string[], TPattern extends string[]> = TPattern extends [
+  infer PatternHead,
+  ...infer PatternTail extends string[]
+]
+  ? PatternHead extends '**'
+    ? MatchSegments<TKey, PatternTail> extends true
+      ? true
+      : TKey extends [string, ...infer KeyTail extends string[]]
+        ? MatchSegments<KeyTail, TPattern>
+        : false
+    : TKey extends [infer KeyHead, ...infer KeyTail extends string[]]
+      ? PatternHead extends '*' | KeyHead
+        ? MatchSegments<KeyTail, PatternTail>
+        : false
+      : false
+  : TKey extends []
+    ? true
+    : false;
+
+/**
+ * Resolves the event keys of the map matched by the given pattern. A lone '*' matches every key,
+ * otherwise '*' matches exactly one segment and '**' any number of segments (e.g. 'app.*.created' or 'app.**').
+ */
+export type MatchingEventKey<TEvents extends EventMap, TPattern extends string> = TPattern extends '*'
+  ? EventKey<TEvents>
+  : {
+      [K in EventKey<TEvents>]: MatchSegments<SplitTopic<K>, SplitTopic<TPattern>> extends true ? K : never;
+    }[EventKey<TEvents>];
+
+/**
+ * Resolves the payload tuple for an event key, or the union of payload tuples of all keys matched by a wildcard pattern.
+ */
+export type EventPayload<TEvents extends EventMap, TPattern extends string> = string extends keyof TEvents
+  ? TEvents[string]
+  : TPattern extends keyof TEvents
+    ? TEvents[TPattern]
+    : TEvents[MatchingEventKey<TEvents, TPattern>];
+
+/**
+ * Accepts the pattern when it is an event key or matches at least one, resolves to `never` otherwise
+ * so that typos are reported by the compiler.
+ */
+export type EventPattern<TEvents extends EventMap, TPattern extends string> = string extends keyof TEvents
+  ? TPattern
+  : TPattern extends keyof TEvents
+    ? TPattern
+    : [MatchingEventKey<TEvents, TPattern>] extends [never]
+      ? never
+      : TPattern;
@@ -1,20 +1,76 @@
-import { defaultSeparator, defaultWildCard } from './Constants';
-import { EventListener, EventNamespace } from './Interfaces';
-import { AsyncListener, ThrottledListener } from './Types';
+import { defaultGlobstar, defaultRetryDelay, defaultWildCard } from './Constants';
+import { AbortError } from './Errors';
+import { CausalNode, EventHistory, JsonSchema, RetryOption } from './Interfaces';
+import { AsyncListener, JsonSchemaType, Middleware, PayloadMatcher, ThrottledListener } from './Types';
 
 /**
  * Splits the given event string into namespace and event name parts.
+ * The namespace keeps every segment but the last one, e.g. 'app.orders.created' is parsed to ['app.orders', 'created'].
  * @param {string} event - The event string to parse.
  * @param {string} separator - The separator used to split the event string.
  * @returns A tuple containing the namespace and event name.
  */
 export const parseEvent = (event: string, separator: string): [string, string] => {
   const parts = event.split(separator);
-  const namespace = parts.length > 1 ? parts[0] : '';
+  const namespace = parts.slice(0, -1).join(separator);
   const eventName = parts[parts.length - 1];
   return [namespace, eventName];
 };
 
+/**
+ * Splits an event or subscription pattern into the segments of its topic trie path.
+ * A lone '*' pattern matches every event, so it is stored as a '**' segment.
+ * @param event - The event or pattern to split.
+ * @param separator - The separator used to split the event.
+ * @returns The segments of the event.
+ */
+export const splitTopic = (event: string, separator: string): string[] => {
+  return event === defaultWildCard ? [defaultGlobstar] : event.split(separator);
+};
+
+/**
+ * Checks whether an event topic matches a subscription pattern, both split by the given separator.
+ * A '*' segment matches exactly one segment and a '**' segment matches any number of segments.
+ * A lone '*' pattern matches every topic.
+ * @param pattern - The subscription pattern, e.g. 'app.*.created' or 'app.**'.
+ * @param topic - The emitted event topic, e.g. 'app.orders.created'.
+ * @param separator - The separator used to split the pattern and topic into segments.
+ * @returns `true` if the topic matches the pattern; otherwise, `false`.
+ */
+export const matchTopic = (pattern: string, topic: string, separator: string): boolean => {
+  if (pattern === defaultWildCard) {
+    return true;
+  }
+
+  const patternSegments = pattern.split(separator);
+  const topicSegments = topic.split(separator);
+
+  const matchFrom = (patternIndex: number, topicIndex: number): boolean => {
+    if (patternIndex === patternSegments.length) {
+      return topicIndex === topicSegments.length;
+    }
+
+    const segment = patternSegments[patternIndex];
+    if (segment === defaultGlobstar) {
+      for (let index = topicIndex; index <= topicSegments.length; index++) {
+        if (matchFrom(patternIndex + 1, index)) {
+          return true;
+        }
+      }
+
+      return false;
+    }
+
+    return (
+      topicIndex < topicSegments.length &&
+      (segment === defaultWildCard || segment === topicSegments[topicIndex]) &&
+      matchFrom(patternIndex + 1, topicIndex + 1)
+    );
+  };
+
+  return matchFrom(0, 0);
+};
+
 /**
  * Inserts a listener object into a sorted array based on priority.
  * @param listeners - The array of listener objects to insert into.
@@ -55,41 +111,395 @@ export const getPrioritizedValue = (defaultVal: string, newVal: string | undefin
 };
 
 /**
- * Finds information about a specific event, including its separator and event name,
- * within the provided event namespaces.
- *
- * @param event - The name of the event for which information is to be retrieved.
- * @param eventNamespaces - A record containing namespaces and their associated events and listeners.
- * @returns separator from event information.
+ * Checks whether a value is a plain object, as opposed to arrays, dates, class instances or primitives.
+ * @param value - The value to check.
+ * @returns `true` if the value is a plain object; otherwise, `false`.
  */
-export const findEventInfo = (event: string, eventNamespaces: Record<string, EventNamespace>): string => {
-  const findSeparatorInListeners = (listeners: EventListener[], condition: (l: EventListener) => boolean) => {
-    const foundListener = listeners.find(condition);
-    return foundListener?.eventInfo.separator || null;
-  };
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
 
-  const findSeparatorForEvent = (namespace: string, eventName: string, isWildcard: boolean) => {
-    const listeners = eventNamespaces[namespace]?.[eventName]?.listeners;
-    return listeners
-      ? isWildcard
-        ? findSeparatorInListeners(listeners, () => event.startsWith(namespace))
-        : findSeparatorInListeners(listeners, l => l.eventInfo.event === event) ||
-          (namespace === defaultWildCard
-            ? findSeparatorInListeners(listeners, l => event.endsWith(`${l.eventInfo.separator}${eventName}`))
-            : null)
-      : null;
-  };
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Checks two values for deep equality of plain objects and arrays, comparing everything else with `Object.is`.
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns `true` if the values are equal; otherwise, `false`.
+ */
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => isDeepEqual(a[key], b[key]));
+  }
+
+  return Object.is(a, b);
+};
+
+const payloadOperators: Record<string, (actual: any, expected: any) => boolean> = {
+  $eq: (actual, expected) => isDeepEqual(actual, expected),
+  $ne: (actual, expected) => !isDeepEqual(actual, expected),
+  $gt: (actual, expected) => actual !== undefined && actual !== null && actual > expected,
+  $gte: (actual, expected) => actual !== undefined && actual !== null && actual >= expected,
+  $lt: (actual, expected) => actual !== undefined && actual !== null && actual < expected,
+  $lte: (actual, expected) => actual !== undefined && actual !== null && actual <= expected,
+  $in: (actual, expected: unknown[]) => expected.some(item => isDeepEqual(actual, item)),
+  $nin: (actual, expected: unknown[]) => !expected.some(item => isDeepEqual(actual, item)),
+  $exists: (actual, expected: boolean) => (actual !== undefined) === expected
+};
+
+/**
+ * Checks whether a payload matches a declarative matcher. Every key of the matcher must match the payload,
+ * nested objects are matched partially and objects made only of operators (e.g. `{ $gt: 1000 }`) are evaluated
+ * against the value of the payload.
+ * @param matcher - The declarative matcher, e.g. `{ status: 'paid', amount: { $gt: 1000 } }`.
+ * @param payload - The payload to match, usually the first emitted argument.
+ * @returns `true` if the payload matches; otherwise, `false`.
+ */
+export const matchesPayload = (matcher: PayloadMatcher, payload: unknown): boolean => {
+  if (typeof payload !== 'object' || payload === null) {
+    return false;
+  }
+
+  const value = payload as Record<string, unknown>;
 
-  for (const [namespace, events] of Object.entries(eventNamespaces)) {
-    for (const [eventName] of Object.entries(events)) {
-      const isWildcard = eventName === defaultWildCard;
-      const separator = findSeparatorForEvent(namespace, eventName, isWildcard);
+  return Object.entries(matcher).every(([key, expected]) => {
+    const actual = value[key];
 
-      if (separator) {
-        return separator;
+    if (isPlainObject(expected)) {
+      const operators = Object.keys(expected);
+      if (operators.length && operators.every(operator => operator in payloadOperators)) {
+        return operators.every(operator => payloadOperators[operator](actual, expected[operator]));
       }
+
+      return matchesPayload(expected, actual);
+    }
+
+    return isDeepEqual(actual, expected);
+  });
+};
+
+const schemaTypes: Record<JsonSchemaType, (value: unknown) => boolean> = {
+  string: value => typeof value === 'string',
+  number: value => typeof value === 'number' && Number.isFinite(value),
+  integer: value => Number.isInteger(value),
+  boolean: value => typeof value === 'boolean',
+  object: value => isPlainObject(value),
+  array: value => Array.isArray(value),
+  null: value => value === null
+};
+
+const hasOwn = (object: object, key: string): boolean => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Validates a value against a JSON Schema subset: `type`, `enum`, `properties`, `required`, `additionalProperties`,
+ * `items`, `minimum`, `maximum`, `minLength`, `maxLength`, `pattern`, `minItems` and `maxItems`.
+ * @param schema - The schema to validate against.
+ * @param value - The value to validate, usually the first emitted argument.
+ * @param path - Optional. The path of the value used in the reasons. Default is `payload`.
+ * @returns The reasons why the value is invalid, or an empty array if it is valid.
+ */
+export const validateSchema = (schema: JsonSchema, value: unknown, path = 'payload'): string[] => {
+  const types = schema.type === undefined ? [] : ([] as JsonSchemaType[]).concat(schema.type);
+  if (types.length && !types.some(type => schemaTypes[type](value))) {
+    return [`${path} must be of type ${types.join(' or ')}`];
+  }
+
+  const reasons: string[] = [];
+  if (schema.enum && !schema.enum.some(item => isDeepEqual(value, item))) {
+    reasons.push(`${path} must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      reasons.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      reasons.push(`${path} must be at most ${schema.maximum}`);
     }
   }
 
-  return defaultSeparator;
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      reasons.push(`${path} must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      reasons.push(`${path} must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      reasons.push(`${path} must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      reasons.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      reasons.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    const { items } = schema;
+    if (items) {
+      value.forEach((item, index) => reasons.push(...validateSchema(items, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties ?? {};
+
+    (schema.required ?? [])
+      .filter(key => value[key] === undefined)
+      .forEach(key => reasons.push(`${path}.${key} is required`));
+    Object.entries(properties)
+      .filter(([key]) => value[key] !== undefined)
+      .forEach(([key, propertySchema]) =>
+        reasons.push(...validateSchema(propertySchema, value[key], `${path}.${key}`))
+      );
+    if (schema.additionalProperties === false) {
+      Object.keys(value)
+        .filter(key => !hasOwn(properties, key))
+        .forEach(key => reasons.push(`${path}.${key} is not allowed`));
+    }
+  }
+
+  return reasons;
 };
+
+/**
+ * Copies a value without the object properties its schema does not declare, at every depth. Objects whose schema
+ * declares no `properties` are kept as they are, the value itself is never modified.
+ * @param schema - The schema declaring the known properties.
+ * @param value - The value to strip, usually the first emitted argument.
+ * @returns The stripped copy of the value, or the value itself if there is nothing to strip.
+ */
+export const stripUnknownProperties = (schema: JsonSchema, value: unknown): unknown => {
+  const { items, properties } = schema;
+
+  if (Array.isArray(value)) {
+    return items ? value.map(item => stripUnknownProperties(items, item)) : value;
+  }
+
+  if (!isPlainObject(value) || !properties) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => hasOwn(properties, key))
+      .map(([key, item]) => [key, stripUnknownProperties(properties[key], item)])
+  );
+};
+
+/**
+ * Runs a middleware chain around a handler. Every middleware receives the shared context and a `next` function
+ * running the rest of the chain, a middleware which does not call `next` short-circuits the handler.
+ * @param middlewares - The middlewares, the first one is the outermost.
+ * @param context - The context shared by all middlewares and the handler.
+ * @param handler - The function run at the end of the chain.
+ * @returns A promise that resolves once the outermost middleware has finished.
+ */
+export const runMiddleware = async <TContext>(
+  middlewares: Middleware<TContext>[],
+  context: TContext,
+  handler: () => Promise<void>
+): Promise<void> => {
+  const dispatch = async (index: number): Promise<void> => {
+    if (index === middlewares.length) {
+      return handler();
+    }
+
+    let called = false;
+    await middlewares[index](context, async () => {
+      if (called) {
+        throw new Error('next() called multiple times');
+      }
+
+      called = true;
+      await dispatch(index + 1);
+    });
+  };
+
+  await dispatch(0);
+};
+
+/**
+ * Converts a value into a JSON safe representation. Errors, dates, maps, sets, bigints, functions, symbols and objects
+ * with a `toJSON` method are converted to plain values, `undefined` becomes `null` and circular references are replaced with '[Circular]'.
+ * @param value - The value to convert.
+ * @param ancestors - The objects containing the value, used to detect circular references.
+ * @returns The JSON safe representation of the value.
+ */
+export const toSerializable = (value: unknown, ancestors: object[] = []): unknown => {
+  switch (typeof value) {
+    case 'undefined':
+      return null;
+    case 'bigint':
+      return `${value}n`;
+    case 'function':
+      return `[Function ${value.name || 'anonymous'}]`;
+    case 'symbol':
+      return value.toString();
+    case 'number':
+      return Number.isFinite(value) ? value : String(value);
+    case 'object':
+      break;
+    default:
+      return value;
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  if (ancestors.includes(value)) {
+    return '[Circular]';
+  }
+
+  const nested = [...ancestors, value];
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value instanceof Map) {
+    return Array.from(value, entry => toSerializable(entry, nested));
+  }
+
+  if (value instanceof Set || Array.isArray(value)) {
+    return Array.from(value, item => toSerializable(item, nested));
+  }
+
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return toSerializable((value as { toJSON: () => unknown }).toJSON(), nested);
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toSerializable(item, nested)]));
+};
+
+/**
+ * Groups history entries into the emissions which recorded them, ordered by time. Entries of the same emission share
+ * their `emitId`, entries without one are treated as separate emissions. Entries of rejected payloads are skipped.
+ * @param history - The history entries, in any order.
+ * @returns The emissions with their event, arguments and the timestamp of their earliest entry.
+ */
+export const groupHistoryByEmission = (
+  history: EventHistory[]
+): Array<{ event: string; args: unknown[]; timestamp: number }> => {
+  const emissions = new Map<unknown, { event: string; args: unknown[]; timestamp: number }>();
+
+  history
+    .filter(entry => entry.outcome !== 'invalid')
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(entry => {
+      const key = entry.emitId ?? entry;
+      if (!emissions.has(key)) {
+        emissions.set(key, { event: entry.event, args: entry.args, timestamp: entry.timestamp });
+      }
+    });
+
+  return Array.from(emissions.values());
+};
+
+/**
+ * Builds the tree of emissions caused by an emission from the history entries, linking every emission to the
+ * emission whose listener emitted it through the `parentEmitId` of its entries. Entries of rejected payloads are
+ * skipped.
+ * @param history - The history entries, in any order.
+ * @param emitId - The id of the emission at the root of the tree.
+ * @returns The root emission with its entries and the emissions it caused, oldest first, or `undefined` if no entry
+ *          of the emission was recorded.
+ */
+export const buildCausalTree = (history: EventHistory[], emitId: string): CausalNode | undefined => {
+  const nodes = new Map<string, CausalNode>();
+
+  history
+    .filter(entry => entry.outcome !== 'invalid')
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(entry => {
+      if (entry.emitId === undefined) {
+        return;
+      }
+
+      const node = nodes.get(entry.emitId);
+      if (node) {
+        node.entries.push(entry);
+        return;
+      }
+
+      nodes.set(entry.emitId, {
+        emitId: entry.emitId,
+        event: entry.event,
+        ...(entry.parentEmitId !== undefined && { parentEmitId: entry.parentEmitId }),
+        timestamp: entry.timestamp,
+        entries: [entry],
+        children: []
+      });
+    });
+
+  nodes.forEach(node => {
+    if (node.parentEmitId !== undefined) {
+      nodes.get(node.parentEmitId)?.children.push(node);
+    }
+  });
+
+  return nodes.get(emitId);
+};
+
+/**
+ * Computes the delay before retrying a failed listener call.
+ * @param retry - The retry option of the listener.
+ * @param attempt - The number of the attempt which failed, starting at 1.
+ * @returns The delay in milliseconds, the `exponential` backoff doubles it after every attempt and the jitter adds
+ *          a random part of up to `jitter` times the delay.
+ */
+export const getRetryDelay = (retry: RetryOption, attempt: number): number => {
+  const retryDelay = retry.delay ?? defaultRetryDelay;
+  const backoffDelay = retry.backoff === 'exponential' ? retryDelay * 2 ** (attempt - 1) : retryDelay;
+
+  return backoffDelay + Math.random() * backoffDelay * (retry.jitter ?? 0);
+};
+
+/**
+ * Checks whether a value is a promise or another thenable.
+ * @param value - The value to check.
+ * @returns `true` if the value has a `then` method; otherwise, `false`.
+ */
+export const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  (typeof value === 'object' || typeof value === 'function') &&
+  value !== null &&
+  typeof (value as PromiseLike<unknown>).then === 'function';
+
+/**
+ * Waits for the given time.
+ * @param ms - The time to wait in milliseconds.
+ * @param signal - An optional `AbortSignal` which rejects the promise with an `AbortError` once aborted.
+ * @returns A promise that resolves once the time has passed.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError('Waiting was aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError('Waiting was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
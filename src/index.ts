@@ -1,6 +1,104 @@
-export { defaultSeparator, defaultWildCard } from './Constants';
+export { BufferedHistoryStore } from './BufferedHistoryStore';
+export { generateAsyncAPI, generateCatalogMarkdown } from './Catalog';
+export {
+  defaultGlobstar,
+  defaultHistorySize,
+  defaultRetryDelay,
+  defaultSeparator,
+  defaultWildCard,
+  errorEvent,
+  validationListenerId
+} from './Constants';
+export {
+  AbortError,
+  AsyncListenerError,
+  BufferOverflowError,
+  InvocationError,
+  QueueFullError,
+  TimeoutError,
+  ValidationError
+} from './Errors';
 export { EventEmitter } from './EventEmitter';
-export { globalEventBus } from './GlobalEventBus';
-export { EventHistory, EventInfo, EventListener, EventNamespace, GlobalOption, Option } from './Interfaces';
+export { EventIterator } from './EventIterator';
+export { GlobalEventBus, getGlobalEventBus, globalEventBus } from './GlobalEventBus';
+export {
+  AsyncAPIOption,
+  CatalogMarkdownOption,
+  CatalogOption,
+  CatalogWarning,
+  CausalNode,
+  ConcurrencyOption,
+  DeadLetter,
+  DebounceOption,
+  DeclaredEvent,
+  DeliveryOption,
+  EmitContext,
+  EmitOption,
+  EmitResult,
+  EmittedEvent,
+  EventContext,
+  EventDefinition,
+  EventHistory,
+  EventInfo,
+  EventIteratorOption,
+  EventListener,
+  FileHistoryStoreOption,
+  GlobalOption,
+  HistoryOption,
+  HistoryQuery,
+  HistoryStore,
+  HistoryStoreOption,
+  JsonSchema,
+  ListenerContext,
+  ListenerController,
+  ListenerErrorEvent,
+  ListenerResult,
+  MemoryHistoryStoreOption,
+  Option,
+  PredicateContext,
+  ReplayedEvent,
+  ReplayOption,
+  RetryOption,
+  SchemaOption,
+  Subscription,
+  ThrottleOption,
+  TopicNode,
+  WaitForOption
+} from './Interfaces';
 export { ListenerManager } from './ListenerManager';
-export { AsyncListener, EventFilter, Listener, ThrottledListener } from './Types';
+export { MemoryHistoryStore } from './MemoryHistoryStore';
+export { RingBuffer } from './RingBuffer';
+export { Semaphore } from './Semaphore';
+export {
+  AsyncAPIVersion,
+  AsyncListener,
+  BackoffStrategy,
+  BackpressurePolicy,
+  CatalogAction,
+  CatalogWarningType,
+  ContextListener,
+  DefaultEventMap,
+  EmitMiddleware,
+  ErrorPolicy,
+  EventArgs,
+  EventFilter,
+  EventKey,
+  EventMap,
+  EventPattern,
+  EventPayload,
+  ExecutionMode,
+  HistoryOutcome,
+  HistorySerializer,
+  JsonSchemaType,
+  Listener,
+  ListenerMiddleware,
+  ListenerPredicate,
+  MatchingEventKey,
+  Middleware,
+  OverflowPolicy,
+  PayloadMatcher,
+  PayloadValidator,
+  QueueOverflowPolicy,
+  ThrottledListener,
+  ValidationMode
+} from './Types';
@@ -0,0 +1,2 @@
+export { FileHistoryStore } from './FileHistoryStore';
+export { FileHistoryStoreOption } from './Interfaces';